@@ -92,6 +92,7 @@ const scopes = [
   "Tasks.ReadWrite",
   "Tasks.ReadWrite.Shared",
   "User.Read",
+  "MailboxSettings.Read",
 ]
 
 // Create MSAL application
@@ -0,0 +1,64 @@
+// src/change-poller.ts
+
+// Checks subscribed resource URIs on a fixed interval and reports the ones that changed.
+// What "changed" means is up to the check callback; the poller only handles the bookkeeping and timing.
+export class ChangePoller {
+  private subscriptions = new Set<string>()
+  private timer: NodeJS.Timeout | null = null
+  private polling = false
+
+  constructor(
+    private intervalMs: number,
+    // Returns the subscribed URIs that changed since the previous check
+    private check: (uris: string[]) => Promise<string[]>,
+    private notify: (uri: string) => Promise<void>,
+  ) {}
+
+  get subscribedUris(): string[] {
+    return [...this.subscriptions]
+  }
+
+  subscribe(uri: string): void {
+    this.subscriptions.add(uri)
+    this.start()
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri)
+    if (this.subscriptions.size === 0) this.stop()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private start(): void {
+    if (this.timer) return
+
+    // Take a baseline right away so the first interval already reports real changes
+    void this.poll()
+    this.timer = setInterval(() => void this.poll(), this.intervalMs)
+    // Never keep the process alive just to poll
+    this.timer.unref()
+  }
+
+  // One round of checking; a round still running when the next one is due is not doubled up
+  async poll(): Promise<void> {
+    if (this.polling || this.subscriptions.size === 0) return
+    this.polling = true
+
+    try {
+      const changed = await this.check(this.subscribedUris)
+      for (const uri of changed) {
+        if (this.subscriptions.has(uri)) await this.notify(uri)
+      }
+    } catch (error) {
+      console.error("Error polling for resource changes:", error)
+    } finally {
+      this.polling = false
+    }
+  }
+}
@@ -4,7 +4,9 @@ import fs from "fs"
 import path from "path"
 import { fileURLToPath } from "url"
 
+import { httpOptionsFromArgs } from "./http-server.js"
 import { startServer } from "./todo-index.js"
+import { toolModeFromArgs } from "./tool-modes.js"
 
 // Get the directory path for the current module
 const __filename = fileURLToPath(import.meta.url)
@@ -48,6 +50,10 @@ startServer({
   accessToken,
   refreshToken,
   tokenFilePath: TOKEN_FILE_PATH,
+  // --read-only or --read-create limit the tools offered
+  toolMode: toolModeFromArgs(process.argv.slice(2)),
+  // --http serves Streamable HTTP and SSE instead of stdio
+  http: httpOptionsFromArgs(process.argv.slice(2)),
 }).catch((error) => {
   const errorMessage = error instanceof Error ? error.message : String(error)
   console.error("Error starting server:", errorMessage)
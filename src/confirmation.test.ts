@@ -0,0 +1,76 @@
+import type { ElicitResult } from "@modelcontextprotocol/sdk/types.js"
+import { describe, expect, it, vi } from "vitest"
+
+import { askForConfirmation, notConfirmedResult } from "./confirmation.js"
+
+// A server whose client does or does not support form elicitation, answering prompts with the given result
+function fakeServer(elicitation: boolean, answer: ElicitResult = { action: "cancel" }) {
+  return {
+    getClientCapabilities: vi.fn(() => (elicitation ? { elicitation: { form: {} } } : {})),
+    elicitInput: vi.fn(async () => answer),
+  }
+}
+
+const QUESTION = 'Delete the list "Groceries" and its 12 tasks?'
+
+describe("askForConfirmation", () => {
+  it("goes ahead when the user accepts the prompt", async () => {
+    const server = fakeServer(true, { action: "accept", content: { confirm: true } })
+
+    expect(await askForConfirmation(server, QUESTION, undefined)).toEqual({ confirmed: true })
+    expect(server.elicitInput).toHaveBeenCalledWith(
+      expect.objectContaining({ message: QUESTION }),
+      expect.objectContaining({ timeout: expect.any(Number) }),
+    )
+  })
+
+  it("stops when the user declines, unticks the box or dismisses the prompt", async () => {
+    const answers: ElicitResult[] = [
+      { action: "decline" },
+      { action: "accept", content: { confirm: false } },
+      { action: "cancel" },
+    ]
+    for (const answer of answers) {
+      expect(await askForConfirmation(fakeServer(true, answer), QUESTION, undefined)).toEqual({
+        confirmed: false,
+        declined: true,
+        message: `Cancelled by the user; nothing was changed.\n\n${QUESTION}`,
+      })
+    }
+  })
+
+  it("ignores the confirm argument when the client can prompt the user", async () => {
+    const server = fakeServer(true, { action: "decline" })
+
+    expect((await askForConfirmation(server, QUESTION, true)).confirmed).toBe(false)
+    expect(server.elicitInput).toHaveBeenCalled()
+  })
+
+  it("relies on the confirm argument without elicitation", async () => {
+    const server = fakeServer(false)
+
+    expect(await askForConfirmation(server, QUESTION, true)).toEqual({ confirmed: true })
+    expect(await askForConfirmation(server, QUESTION, undefined)).toEqual({
+      confirmed: false,
+      declined: false,
+      message: `${QUESTION}\n\nNothing was changed. Ask the user to confirm, then call again with confirm: true.`,
+    })
+    expect(server.elicitInput).not.toHaveBeenCalled()
+  })
+})
+
+describe("notConfirmedResult", () => {
+  it("reports a declined prompt as an answer rather than an error", () => {
+    expect(notConfirmedResult({ declined: true, message: "Cancelled" }, { deleted: false })).toEqual({
+      content: [{ type: "text", text: "Cancelled" }],
+      structuredContent: { deleted: false },
+    })
+  })
+
+  it("reports a missing confirm argument as an error", () => {
+    expect(notConfirmedResult({ declined: false, message: "Confirm first" }, { deleted: false })).toEqual({
+      content: [{ type: "text", text: "Confirm first" }],
+      isError: true,
+    })
+  })
+})
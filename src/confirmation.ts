@@ -0,0 +1,60 @@
+// src/confirmation.ts
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js"
+
+export type Confirmation = { confirmed: true } | { confirmed: false; declined: boolean; message: string }
+
+// How long the user has to answer a confirmation prompt
+const CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000
+
+// Ask the user before a destructive operation. Clients that support elicitation show the question as a
+// prompt and the confirm argument is ignored, so a model cannot answer for the user; other clients have
+// to pass confirm: true.
+export async function askForConfirmation(
+  server: Pick<Server, "getClientCapabilities" | "elicitInput">,
+  question: string,
+  confirm: boolean | undefined,
+): Promise<Confirmation> {
+  if (!server.getClientCapabilities()?.elicitation?.form) {
+    if (confirm) return { confirmed: true }
+    return {
+      confirmed: false,
+      declined: false,
+      message: `${question}\n\nNothing was changed. Ask the user to confirm, then call again with confirm: true.`,
+    }
+  }
+
+  const result = await server.elicitInput(
+    {
+      message: question,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: { type: "boolean", title: "Yes, go ahead", default: false },
+        },
+        required: ["confirm"],
+      },
+    },
+    { timeout: CONFIRMATION_TIMEOUT_MS },
+  )
+
+  if (result.action === "accept" && result.content?.confirm === true) return { confirmed: true }
+  return { confirmed: false, declined: true, message: `Cancelled by the user; nothing was changed.\n\n${question}` }
+}
+
+// What a destructive tool returns when it did not go ahead. A user declining is an answer, not an error;
+// a missing confirm argument is an error the model can act on.
+export function notConfirmedResult(
+  confirmation: { declined: boolean; message: string },
+  structuredContent: { [key: string]: unknown },
+) {
+  if (confirmation.declined) {
+    return {
+      content: [{ type: "text" as const, text: confirmation.message }],
+      structuredContent,
+    }
+  }
+  return {
+    content: [{ type: "text" as const, text: confirmation.message }],
+    isError: true,
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+
+import { BatchRequest, chunkBatchRequests, MAX_BATCH_SIZE } from "./graph-batch.js"
+
+function requests(count: number, prefix = "r"): BatchRequest[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `${prefix}${index}`,
+    method: "GET",
+    url: `/me/todo/lists/${index}`,
+  }))
+}
+
+const ids = (chunks: BatchRequest[][]) => chunks.map((chunk) => chunk.map((request) => request.id))
+
+describe("chunkBatchRequests", () => {
+  it("returns no chunks for no requests", () => {
+    expect(chunkBatchRequests([])).toEqual([])
+  })
+
+  it("splits independent requests into chunks of at most MAX_BATCH_SIZE, in order", () => {
+    const chunks = chunkBatchRequests(requests(45))
+    expect(chunks.map((chunk) => chunk.length)).toEqual([MAX_BATCH_SIZE, MAX_BATCH_SIZE, 5])
+    expect(chunks.flat().map((request) => request.id)).toEqual(requests(45).map((request) => request.id))
+  })
+
+  it("keeps a dependsOn chain in one chunk", () => {
+    const chain: BatchRequest[] = [
+      { id: "create", method: "POST", url: "/me/todo/lists/l/tasks" },
+      { id: "item", method: "POST", url: "/me/todo/lists/l/tasks/t/checklistItems", dependsOn: ["create"] },
+      { id: "link", method: "POST", url: "/me/todo/lists/l/tasks/t/linkedResources", dependsOn: ["item"] },
+    ]
+    const chunks = chunkBatchRequests([...requests(19), ...chain])
+
+    expect(ids(chunks)).toEqual([requests(19).map((request) => request.id), ["create", "item", "link"]])
+  })
+
+  it("groups requests that share a dependency", () => {
+    const chunks = chunkBatchRequests([
+      { id: "a", method: "GET", url: "/a" },
+      { id: "x", method: "GET", url: "/x" },
+      { id: "b", method: "GET", url: "/b", dependsOn: ["a"] },
+      { id: "c", method: "GET", url: "/c", dependsOn: ["a"] },
+    ])
+    expect(ids(chunks)).toEqual([["a", "b", "c", "x"]])
+  })
+
+  it("ignores dependencies on requests outside the list", () => {
+    const chunks = chunkBatchRequests([{ id: "a", method: "GET", url: "/a", dependsOn: ["elsewhere"] }])
+    expect(ids(chunks)).toEqual([["a"]])
+  })
+
+  it("rejects a chain longer than one batch", () => {
+    const chain = requests(MAX_BATCH_SIZE + 1).map((request, index) =>
+      index > 0 ? { ...request, dependsOn: [`r${index - 1}`] } : request,
+    )
+    expect(() => chunkBatchRequests(chain)).toThrow(/does not fit in one batch/)
+  })
+})
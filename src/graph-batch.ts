@@ -0,0 +1,55 @@
+// src/graph-batch.ts
+
+// Graph accepts at most 20 requests per JSON $batch call
+export const MAX_BATCH_SIZE = 20
+
+// One request inside a JSON $batch call
+export interface BatchRequest {
+  id: string
+  method: "GET" | "POST" | "PATCH" | "DELETE"
+  // Absolute Graph URL or a path relative to https://graph.microsoft.com/v1.0
+  url: string
+  body?: unknown
+  // IDs of requests (in the same call) that must succeed before this one runs
+  dependsOn?: string[]
+}
+
+// Split requests into $batch-sized chunks, keeping every dependsOn chain inside a single chunk
+export function chunkBatchRequests(requests: BatchRequest[]): BatchRequest[][] {
+  // Union requests that depend on each other into groups
+  const root = new Map(requests.map((r) => [r.id, r.id]))
+  const find = (id: string): string => {
+    let current = id
+    while (root.get(current) !== current) current = root.get(current)!
+    return current
+  }
+  for (const request of requests) {
+    for (const dependency of request.dependsOn || []) {
+      if (root.has(dependency)) root.set(find(dependency), find(request.id))
+    }
+  }
+
+  const groups = new Map<string, BatchRequest[]>()
+  for (const request of requests) {
+    const key = find(request.id)
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(request)
+  }
+
+  const chunks: BatchRequest[][] = []
+  let current: BatchRequest[] = []
+
+  for (const group of groups.values()) {
+    if (group.length > MAX_BATCH_SIZE) {
+      throw new Error(`A dependsOn chain of ${group.length} requests does not fit in one batch of ${MAX_BATCH_SIZE}`)
+    }
+    if (current.length + group.length > MAX_BATCH_SIZE) {
+      chunks.push(current)
+      current = []
+    }
+    current.push(...group)
+  }
+
+  if (current.length > 0) chunks.push(current)
+  return chunks
+}
@@ -0,0 +1,139 @@
+// src/graph-error.ts
+
+// Error body returned by Microsoft Graph
+interface GraphErrorBody {
+  error?: {
+    code?: string
+    message?: string
+    innerError?: {
+      code?: string
+      date?: string
+      "request-id"?: string
+      "client-request-id"?: string
+    }
+  }
+}
+
+export interface GraphErrorDetails {
+  status: number
+  method: string
+  url: string
+  code?: string
+  graphMessage?: string
+  requestId?: string
+  clientRequestId?: string
+  retryAfterMs?: number
+}
+
+// A failed Microsoft Graph request, with everything needed to explain it to the user or to Microsoft support
+export class GraphError extends Error {
+  readonly status: number
+  readonly method: string
+  readonly url: string
+  readonly code?: string
+  readonly graphMessage?: string
+  readonly requestId?: string
+  readonly clientRequestId?: string
+  readonly retryAfterMs?: number
+
+  constructor(details: GraphErrorDetails) {
+    super(
+      `Graph request ${details.method} ${details.url} failed with status ${details.status}` +
+        (details.code ? ` (${details.code})` : "") +
+        (details.graphMessage ? `: ${details.graphMessage}` : ""),
+    )
+    this.name = "GraphError"
+    this.status = details.status
+    this.method = details.method
+    this.url = details.url
+    this.code = details.code
+    this.graphMessage = details.graphMessage
+    this.requestId = details.requestId
+    this.clientRequestId = details.clientRequestId
+    this.retryAfterMs = details.retryAfterMs
+  }
+
+  // Build from a non-OK fetch response; reads the body
+  static async fromResponse(
+    response: Response,
+    method: string,
+    url: string,
+    clientRequestId?: string,
+    retryAfterMs?: number,
+  ): Promise<GraphError> {
+    const text = await response.text()
+
+    let body: GraphErrorBody = {}
+    try {
+      body = JSON.parse(text)
+    } catch {
+      // Not JSON (e.g. a gateway error page); keep the raw text as the message
+    }
+
+    return new GraphError({
+      status: response.status,
+      method,
+      url,
+      code: body.error?.code,
+      graphMessage: body.error?.message || text.substring(0, 500) || undefined,
+      requestId: response.headers.get("request-id") || body.error?.innerError?.["request-id"] || undefined,
+      clientRequestId:
+        response.headers.get("client-request-id") ||
+        body.error?.innerError?.["client-request-id"] ||
+        clientRequestId ||
+        undefined,
+      retryAfterMs,
+    })
+  }
+
+  get isThrottled(): boolean {
+    return this.status === 429 || (this.status === 503 && this.retryAfterMs !== undefined)
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404 || this.code === "ErrorItemNotFound" || this.code === "ResourceNotFound"
+  }
+
+  get isMailboxNotEnabled(): boolean {
+    return this.code === "MailboxNotEnabledForRESTAPI" || !!this.graphMessage?.includes("MailboxNotEnabledForRESTAPI")
+  }
+
+  // A message that tells the user what went wrong and what to do about it
+  describe(): string {
+    let explanation: string
+
+    if (this.isMailboxNotEnabled) {
+      explanation =
+        "This mailbox is not enabled for the Microsoft To Do API. Personal Microsoft accounts (outlook.com, hotmail.com, live.com) " +
+        "usually cannot use To Do through Microsoft Graph; use a Microsoft 365 work or school account."
+    } else if (this.isNotFound) {
+      explanation =
+        "The list or task was not found. It may have been deleted or moved, or the ID is wrong. " +
+        "Use get-task-lists or get-tasks to look up current IDs."
+    } else if (this.status === 401) {
+      explanation =
+        "Microsoft Graph rejected the access token. Run 'npx microsoft-todo-mcp-server setup' to sign in again."
+    } else if (this.status === 403) {
+      explanation =
+        "Access denied. Shared lists need consent for the Tasks.ReadWrite.Shared permission; " +
+        "add it to the app registration, grant consent, and sign in again."
+    } else if (this.isThrottled) {
+      const wait =
+        this.retryAfterMs !== undefined ? ` Try again in ${Math.ceil(this.retryAfterMs / 1000)} seconds.` : ""
+      explanation = `Microsoft Graph is throttling requests and the retry budget ran out.${wait}`
+    } else if (this.status >= 500) {
+      explanation = "Microsoft Graph is temporarily unavailable. Try again shortly."
+    } else if (this.status === 400) {
+      explanation = `Microsoft Graph rejected the request: ${this.graphMessage || "bad request"}`
+    } else {
+      explanation = this.graphMessage || "Microsoft Graph request failed."
+    }
+
+    const details = [`status ${this.status}`]
+    if (this.code) details.push(`code ${this.code}`)
+    if (this.requestId) details.push(`request-id ${this.requestId}`)
+    if (this.clientRequestId) details.push(`client-request-id ${this.clientRequestId}`)
+
+    return `${explanation} (${details.join(", ")})`
+  }
+}
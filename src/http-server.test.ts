@@ -0,0 +1,203 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join, resolve } from "path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+  httpOptionsFromArgs,
+  isLoopbackHost,
+  resolveInFileDirectory,
+  type RunningHttpServer,
+  startHttpServer,
+} from "./http-server.js"
+
+describe("httpOptionsFromArgs", () => {
+  it("serves stdio unless HTTP is asked for", () => {
+    expect(httpOptionsFromArgs([], {})).toBeUndefined()
+    expect(httpOptionsFromArgs(["--read-only"], {})).toBeUndefined()
+    expect(httpOptionsFromArgs(["--http", "--stdio"], {})).toBeUndefined()
+    expect(httpOptionsFromArgs(["--stdio"], { MSTODO_TRANSPORT: "http" })).toBeUndefined()
+  })
+
+  it("serves HTTP on the loopback address by default", () => {
+    expect(httpOptionsFromArgs(["--http"], {})).toEqual({
+      host: DEFAULT_HTTP_HOST,
+      port: DEFAULT_HTTP_PORT,
+      allowedHosts: undefined,
+      authToken: undefined,
+      fileDirectory: undefined,
+      sessionIdleMs: undefined,
+    })
+    expect(httpOptionsFromArgs(["--transport=HTTP"], {})?.port).toBe(DEFAULT_HTTP_PORT)
+    expect(httpOptionsFromArgs([], { MSTODO_TRANSPORT: " http " })?.host).toBe(DEFAULT_HTTP_HOST)
+  })
+
+  it("prefers command-line host and port over the environment", () => {
+    const env = { MSTODO_TRANSPORT: "http", MSTODO_HTTP_HOST: "localhost", MSTODO_HTTP_PORT: "4000" }
+    expect(httpOptionsFromArgs([], env)).toMatchObject({ host: "localhost", port: 4000 })
+    expect(httpOptionsFromArgs(["--host=::1", "--port=5000"], env)).toMatchObject({ host: "::1", port: 5000 })
+  })
+
+  it("rejects invalid ports and transports", () => {
+    expect(() => httpOptionsFromArgs(["--http", "--port=http"], {})).toThrow('Invalid port "http"')
+    expect(() => httpOptionsFromArgs(["--http", "--port=70000"], {})).toThrow('Invalid port "70000"')
+    expect(() => httpOptionsFromArgs([], { MSTODO_HTTP_PORT: "-1" })).toThrow('Invalid port "-1"')
+    expect(() => httpOptionsFromArgs(["--transport=websocket"], {})).toThrow(
+      'Unknown transport "websocket". Use stdio or http',
+    )
+  })
+
+  it("requires a token to serve beyond this machine", () => {
+    expect(() => httpOptionsFromArgs(["--http", "--host=0.0.0.0"], {})).toThrow(
+      "Serving on 0.0.0.0 makes the server reachable from other machines; set MSTODO_HTTP_TOKEN",
+    )
+    expect(() => httpOptionsFromArgs(["--http", "--host=0.0.0.0"], { MSTODO_HTTP_TOKEN: "  " })).toThrow(
+      "set MSTODO_HTTP_TOKEN",
+    )
+    expect(httpOptionsFromArgs(["--http", "--host=0.0.0.0"], { MSTODO_HTTP_TOKEN: " secret " })).toMatchObject({
+      host: "0.0.0.0",
+      authToken: "secret",
+    })
+  })
+
+  it("reads allowed hosts as a comma-separated list", () => {
+    const env = { MSTODO_HTTP_ALLOWED_HOSTS: "todo.example.com, localhost:3100,," }
+    expect(httpOptionsFromArgs(["--http"], env)?.allowedHosts).toEqual(["todo.example.com", "localhost:3100"])
+    expect(httpOptionsFromArgs(["--http"], { MSTODO_HTTP_ALLOWED_HOSTS: " , " })?.allowedHosts).toBeUndefined()
+  })
+
+  it("resolves the file directory", () => {
+    expect(httpOptionsFromArgs(["--http"], { MSTODO_FILE_DIR: "attachments" })?.fileDirectory).toBe(
+      resolve("attachments"),
+    )
+  })
+
+  it("reads the session idle timeout in seconds", () => {
+    expect(httpOptionsFromArgs(["--http"], { MSTODO_HTTP_SESSION_IDLE_SECONDS: "90" })?.sessionIdleMs).toBe(90_000)
+    for (const value of ["0", "-5", "soon"]) {
+      expect(() => httpOptionsFromArgs(["--http"], { MSTODO_HTTP_SESSION_IDLE_SECONDS: value })).toThrow(
+        `Invalid MSTODO_HTTP_SESSION_IDLE_SECONDS "${value}"`,
+      )
+    }
+  })
+})
+
+describe("isLoopbackHost", () => {
+  it("accepts loopback names and addresses", () => {
+    for (const host of ["localhost", "LOCALHOST", "127.0.0.1", "127.1.2.3", "::1", "[::1]"]) {
+      expect(isLoopbackHost(host)).toBe(true)
+    }
+  })
+
+  it("rejects addresses other machines can reach", () => {
+    for (const host of ["0.0.0.0", "::", "192.168.1.10", "example.com", "127.example.com"]) {
+      expect(isLoopbackHost(host)).toBe(false)
+    }
+  })
+})
+
+describe("resolveInFileDirectory", () => {
+  let root: string
+  let directory: string
+
+  beforeEach(() => {
+    root = realpathSync(mkdtempSync(join(tmpdir(), "http-server-")))
+    directory = join(root, "files")
+    mkdirSync(join(directory, "reports"), { recursive: true })
+    writeFileSync(join(root, "secret.txt"), "not for clients")
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it("resolves paths inside the directory, including files that do not exist yet", () => {
+    expect(resolveInFileDirectory("reports/q1.pdf", directory)).toBe(join(directory, "reports", "q1.pdf"))
+    expect(resolveInFileDirectory(join(directory, "notes.txt"), directory)).toBe(join(directory, "notes.txt"))
+    expect(resolveInFileDirectory(".", directory)).toBe(directory)
+  })
+
+  it("rejects paths outside the directory", () => {
+    for (const path of ["../secret.txt", join(root, "secret.txt"), "/etc/passwd", "reports/../../secret.txt"]) {
+      expect(() => resolveInFileDirectory(path, directory)).toThrow(
+        `${path} is outside ${directory}, the only directory file arguments may use`,
+      )
+    }
+  })
+
+  it("rejects symbolic links that lead outside the directory", () => {
+    symlinkSync(join(root, "secret.txt"), join(directory, "link.txt"))
+    symlinkSync(root, join(directory, "escape"))
+
+    expect(() => resolveInFileDirectory("link.txt", directory)).toThrow("is outside")
+    expect(() => resolveInFileDirectory("escape/new.txt", directory)).toThrow("is outside")
+  })
+})
+
+describe("startHttpServer", () => {
+  const TOKEN = "test-token"
+  const initializeRequest = {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+  }
+  let running: RunningHttpServer
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${running.url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+      body: JSON.stringify(body),
+    })
+  const sessionCount = async () => (await (await fetch(`${running.url}/health`)).json()).sessions.streamableHttp
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    running = await startHttpServer(() => new McpServer({ name: "test", version: "1.0.0" }), {
+      host: "127.0.0.1",
+      port: 0,
+      authToken: TOKEN,
+      sessionIdleMs: 300,
+    })
+  })
+
+  afterEach(async () => {
+    await running.close()
+    vi.restoreAllMocks()
+  })
+
+  it("rejects requests without the bearer token", async () => {
+    const response = await post(initializeRequest)
+
+    expect(response.status).toBe(401)
+    expect(response.headers.get("www-authenticate")).toBe('Bearer realm="mcp"')
+    expect((await response.json()).error.message).toBe("Missing or invalid bearer token")
+  })
+
+  it("rejects a wrong bearer token", async () => {
+    expect((await post(initializeRequest, { Authorization: "Bearer wrong-token" })).status).toBe(401)
+    expect((await post(initializeRequest, { Authorization: TOKEN })).status).toBe(401)
+  })
+
+  it("keeps /health open without a token", async () => {
+    const response = await fetch(`${running.url}/health`)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ status: "ok", sessions: { streamableHttp: 0, sse: 0 } })
+  })
+
+  it("opens a session with the bearer token and closes it once it is idle", async () => {
+    const response = await post(initializeRequest, { Authorization: `Bearer ${TOKEN}` })
+    await response.text()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get("mcp-session-id")).toBeTruthy()
+    expect(await sessionCount()).toBe(1)
+
+    await vi.waitFor(async () => expect(await sessionCount()).toBe(0), { timeout: 3000, interval: 50 })
+  })
+})
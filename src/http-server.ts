@@ -0,0 +1,340 @@
+// src/http-server.ts
+import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js"
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js"
+import { createHash, randomUUID, timingSafeEqual } from "crypto"
+import { NextFunction, Request, Response } from "express"
+import { existsSync, realpathSync } from "fs"
+import { AddressInfo, isIP } from "net"
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "path"
+
+export interface HttpServerOptions {
+  host: string
+  port: number
+  // Host header values to accept. Without it the SDK only guards localhost against DNS rebinding.
+  allowedHosts?: string[]
+  // Clients must send "Authorization: Bearer <authToken>". Required unless the host is a loopback address.
+  authToken?: string
+  // The only directory file arguments (upload-attachment's filePath, download-attachment's savePath) may use.
+  // Without it those arguments are not offered over HTTP at all.
+  fileDirectory?: string
+  // Sessions with no open request or stream for this long are closed (default: DEFAULT_SESSION_IDLE_MS)
+  sessionIdleMs?: number
+}
+
+// Builds the MCP server for one session; every HTTP client gets its own
+export type ServerFactory = (sessionId: string) => McpServer
+
+export interface RunningHttpServer {
+  url: string
+  close(): Promise<void>
+}
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1"
+export const DEFAULT_HTTP_PORT = 3100
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000
+
+function parsePort(value: string): number {
+  const port = Number(value)
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${value}"`)
+  }
+  return port
+}
+
+// Only this machine can reach a server bound to one of these
+export function isLoopbackHost(host: string): boolean {
+  const address = host.replace(/^\[(.*)\]$/, "$1").toLowerCase()
+  if (address === "localhost" || address === "::1") return true
+  return isIP(address) === 4 && address.startsWith("127.")
+}
+
+// HTTP is opt-in: --http (or --transport=http) on the command line, or MSTODO_TRANSPORT=http.
+// --host=<host> and --port=<port> win over MSTODO_HTTP_HOST and MSTODO_HTTP_PORT. Returns undefined for stdio.
+// The bearer token (MSTODO_HTTP_TOKEN) and file directory (MSTODO_FILE_DIR) only come from the environment,
+// so they do not show up in process listings.
+export function httpOptionsFromArgs(
+  args: string[],
+  env: NodeJS.ProcessEnv = process.env,
+): HttpServerOptions | undefined {
+  let transport = env.MSTODO_TRANSPORT?.trim().toLowerCase() || "stdio"
+  let host = env.MSTODO_HTTP_HOST || DEFAULT_HTTP_HOST
+  let port = env.MSTODO_HTTP_PORT ? parsePort(env.MSTODO_HTTP_PORT) : DEFAULT_HTTP_PORT
+
+  for (const arg of args) {
+    if (arg === "--http") transport = "http"
+    else if (arg === "--stdio") transport = "stdio"
+    else if (arg.startsWith("--transport=")) transport = arg.slice("--transport=".length).trim().toLowerCase()
+    else if (arg.startsWith("--host=")) host = arg.slice("--host=".length)
+    else if (arg.startsWith("--port=")) port = parsePort(arg.slice("--port=".length))
+  }
+
+  if (transport === "stdio") return undefined
+  if (transport !== "http") {
+    throw new Error(`Unknown transport "${transport}". Use stdio or http`)
+  }
+
+  let sessionIdleMs: number | undefined
+  if (env.MSTODO_HTTP_SESSION_IDLE_SECONDS) {
+    const seconds = Number(env.MSTODO_HTTP_SESSION_IDLE_SECONDS)
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      throw new Error(`Invalid MSTODO_HTTP_SESSION_IDLE_SECONDS "${env.MSTODO_HTTP_SESSION_IDLE_SECONDS}"`)
+    }
+    sessionIdleMs = seconds * 1000
+  }
+
+  const authToken = env.MSTODO_HTTP_TOKEN?.trim() || undefined
+  if (!authToken && !isLoopbackHost(host)) {
+    throw new Error(`Serving on ${host} makes the server reachable from other machines; set MSTODO_HTTP_TOKEN`)
+  }
+
+  const allowedHosts = env.MSTODO_HTTP_ALLOWED_HOSTS?.split(",")
+    .map((allowed) => allowed.trim())
+    .filter(Boolean)
+  return {
+    host,
+    port,
+    allowedHosts: allowedHosts?.length ? allowedHosts : undefined,
+    authToken,
+    fileDirectory: env.MSTODO_FILE_DIR ? resolve(env.MSTODO_FILE_DIR) : undefined,
+    sessionIdleMs,
+  }
+}
+
+// Absolute path for a file argument in a session limited to fileDirectory. Relative paths are resolved against
+// the directory, and anything outside it is refused, symbolic links included.
+export function resolveInFileDirectory(path: string, directory: string): string {
+  const target = resolve(directory, path)
+  // A file about to be written does not exist yet, so follow the links of the directory it goes into
+  const real = existsSync(target) ? realpathSync(target) : join(realpathSync(dirname(target)), basename(target))
+  const fromDirectory = relative(realpathSync(directory), real)
+  if (fromDirectory === ".." || fromDirectory.startsWith(`..${sep}`) || isAbsolute(fromDirectory)) {
+    throw new Error(`${path} is outside ${directory}, the only directory file arguments may use`)
+  }
+  return target
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport
+  server: McpServer
+  // When the client was last heard from, and how many of its requests and streams are still open
+  lastActivity: number
+  openRequests: number
+}
+
+function jsonRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({ jsonrpc: "2.0", error: { code: -32000, message }, id: null })
+}
+
+// Compares digests, so neither the content nor the length of the token leaks through timing
+function tokenMatches(received: string, expected: string): boolean {
+  const digest = (token: string) => createHash("sha256").update(token).digest()
+  return timingSafeEqual(digest(received), digest(expected))
+}
+
+// Rejects requests without the configured bearer token. /health stays open for load balancers.
+function requireBearerToken(authToken: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.path === "/health") return next()
+
+    const [scheme, token] = (req.header("authorization") ?? "").split(" ")
+    if (scheme?.toLowerCase() !== "bearer" || !token || !tokenMatches(token, authToken)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="mcp"')
+      return jsonRpcError(res, 401, "Missing or invalid bearer token")
+    }
+    next()
+  }
+}
+
+// Serves MCP over Streamable HTTP at /mcp, and over the older HTTP+SSE transport at /sse and /messages for
+// clients that do not support Streamable HTTP yet. Sessions live until the client ends them or disconnects, or
+// until they have been idle for sessionIdleMs; clients that go away without a word are cleaned up that way.
+export async function startHttpServer(
+  createServer: ServerFactory,
+  options: HttpServerOptions,
+): Promise<RunningHttpServer> {
+  const app = createMcpExpressApp({ host: options.host, allowedHosts: options.allowedHosts })
+  if (options.authToken) app.use(requireBearerToken(options.authToken))
+  const sessions = new Map<string, Session>()
+  const startedAt = Date.now()
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS
+
+  // Closing the server closes its transport too, which stops the session's change poller
+  const closeSession = async (sessionId: string, reason: string) => {
+    const session = sessions.get(sessionId)
+    if (!session) return
+    sessions.delete(sessionId)
+    console.error(`Closing session ${sessionId}: ${reason}`)
+    await session.transport.close().catch((error) => console.error("Error closing transport:", error))
+    await session.server.close().catch((error) => console.error("Error closing server:", error))
+  }
+
+  // A session counts as busy until the response is finished, so open event streams keep it alive
+  const trackRequest = (session: Session, res: Response) => {
+    session.openRequests++
+    session.lastActivity = Date.now()
+    res.on("close", () => {
+      session.openRequests--
+      session.lastActivity = Date.now()
+    })
+  }
+
+  const sweep = setInterval(
+    () => {
+      const idleSince = Date.now() - sessionIdleMs
+      for (const [sessionId, session] of sessions) {
+        if (session.openRequests === 0 && session.lastActivity < idleSince) {
+          void closeSession(sessionId, "idle")
+        }
+      }
+    },
+    Math.min(sessionIdleMs, 60_000),
+  )
+  // The sweep alone must not keep the process running
+  sweep.unref()
+
+  // Streamable HTTP: a POST without a session ID must be the client's initialize request, which opens a session
+  app.post("/mcp", async (req: Request, res: Response) => {
+    const sessionId = req.header("mcp-session-id")
+    try {
+      if (sessionId) {
+        const session = sessions.get(sessionId)
+        if (!session) return jsonRpcError(res, 404, `Unknown session: ${sessionId}`)
+        if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+          return jsonRpcError(res, 400, `Session ${sessionId} uses the SSE transport`)
+        }
+        trackRequest(session, res)
+        return await session.transport.handleRequest(req, res, req.body)
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        return jsonRpcError(res, 400, "No session ID provided; start a session with an initialize request")
+      }
+
+      const newSessionId = randomUUID()
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => newSessionId,
+        onsessioninitialized: (id) => console.error(`HTTP session started: ${id}`),
+      })
+      // Set before connecting, so the server's own close and error handling is chained after them
+      transport.onclose = () => {
+        sessions.delete(newSessionId)
+        console.error(`HTTP session closed: ${newSessionId}`)
+      }
+      transport.onerror = (error) => console.error(`HTTP session ${newSessionId}:`, error)
+
+      const server = createServer(newSessionId)
+      const session: Session = { transport, server, lastActivity: Date.now(), openRequests: 0 }
+      sessions.set(newSessionId, session)
+      trackRequest(session, res)
+      try {
+        await server.connect(transport)
+        await transport.handleRequest(req, res, req.body)
+      } catch (error) {
+        await closeSession(newSessionId, "initialize failed")
+        throw error
+      }
+
+      // The transport only takes on the session ID once initialize went through; a rejected request leaves none
+      if (!transport.sessionId) await closeSession(newSessionId, "initialize was rejected")
+    } catch (error) {
+      console.error("Error handling MCP request:", error)
+      if (!res.headersSent) jsonRpcError(res, 500, "Internal server error")
+    }
+  })
+
+  // GET opens the stream for server-initiated messages; DELETE ends the session
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = req.header("mcp-session-id")
+    const session = sessionId ? sessions.get(sessionId) : undefined
+    if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+      return jsonRpcError(res, sessionId ? 404 : 400, sessionId ? `Unknown session: ${sessionId}` : "No session ID")
+    }
+    trackRequest(session, res)
+    try {
+      await session.transport.handleRequest(req, res)
+    } catch (error) {
+      console.error("Error handling MCP request:", error)
+      if (!res.headersSent) jsonRpcError(res, 500, "Internal server error")
+    }
+  }
+  app.get("/mcp", handleSessionRequest)
+  app.delete("/mcp", handleSessionRequest)
+
+  // Deprecated HTTP+SSE transport: the event stream carries responses, and the client posts to /messages
+  app.get("/sse", async (_req: Request, res: Response) => {
+    try {
+      const transport = new SSEServerTransport("/messages", res)
+      // The transport closes itself when the event stream ends, which takes the session with it
+      transport.onclose = () => {
+        sessions.delete(transport.sessionId)
+        console.error(`SSE session closed: ${transport.sessionId}`)
+      }
+      transport.onerror = (error) => console.error(`SSE session ${transport.sessionId}:`, error)
+
+      const server = createServer(transport.sessionId)
+      const session: Session = { transport, server, lastActivity: Date.now(), openRequests: 0 }
+      sessions.set(transport.sessionId, session)
+      trackRequest(session, res)
+      console.error(`SSE session started: ${transport.sessionId}`)
+      try {
+        await server.connect(transport)
+      } catch (error) {
+        await closeSession(transport.sessionId, "could not start the event stream")
+        throw error
+      }
+    } catch (error) {
+      console.error("Error opening SSE stream:", error)
+      if (!res.headersSent) res.status(500).end()
+    }
+  })
+
+  app.post("/messages", async (req: Request, res: Response) => {
+    const sessionId = String(req.query.sessionId ?? "")
+    const session = sessions.get(sessionId)
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      return jsonRpcError(res, 404, `Unknown SSE session: ${sessionId}`)
+    }
+    trackRequest(session, res)
+    try {
+      await session.transport.handlePostMessage(req, res, req.body)
+    } catch (error) {
+      console.error("Error handling SSE message:", error)
+      if (!res.headersSent) jsonRpcError(res, 500, "Internal server error")
+    }
+  })
+
+  app.get("/health", (_req: Request, res: Response) => {
+    const transports = [...sessions.values()].map((session) => session.transport)
+    res.json({
+      status: "ok",
+      uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+      sessions: {
+        streamableHttp: transports.filter((transport) => transport instanceof StreamableHTTPServerTransport).length,
+        sse: transports.filter((transport) => transport instanceof SSEServerTransport).length,
+      },
+    })
+  })
+
+  const httpServer = app.listen(options.port, options.host)
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("listening", resolve)
+    httpServer.once("error", reject)
+  })
+
+  const { port } = httpServer.address() as AddressInfo
+  const host = options.host.includes(":") ? `[${options.host}]` : options.host
+
+  return {
+    url: `http://${host}:${port}`,
+    async close() {
+      clearInterval(sweep)
+      for (const sessionId of [...sessions.keys()]) {
+        await closeSession(sessionId, "server shutting down")
+      }
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()))
+    },
+  }
+}
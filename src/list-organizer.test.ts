@@ -0,0 +1,158 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  DEFAULT_ORGANIZATION_CONFIG,
+  groupListsByType,
+  loadOrganizationConfig,
+  OrganizableList,
+  organizeLists,
+  sortCategories,
+} from "./list-organizer.js"
+
+const names = (organized: { [category: string]: OrganizableList[] }) =>
+  Object.fromEntries(Object.entries(organized).map(([category, lists]) => [category, lists.map((l) => l.displayName)]))
+
+describe("organizeLists", () => {
+  it("sorts lists by the default rules, with special, shared and other lists as fallbacks", () => {
+    const organized = organizeLists(
+      [
+        { displayName: "Tasks", wellknownListName: "defaultList" },
+        { displayName: "🛒 Groceries" },
+        { displayName: "work items" },
+        { displayName: "Book club", isShared: true },
+        { displayName: "Ideas" },
+        { displayName: "Untitled", wellknownListName: "none" },
+      ],
+      DEFAULT_ORGANIZATION_CONFIG,
+    )
+
+    expect(names(organized)).toEqual({
+      "⭐ Special Lists": ["Tasks"],
+      "🛒 Shopping Lists": ["🛒 Groceries"],
+      "💼 Work": ["work items"],
+      "👥 Shared Lists": ["Book club"],
+      "📋 Other Lists": ["Ideas", "Untitled"],
+    })
+  })
+
+  it("puts archived lists in a group named by the archive pattern's capture group, before any rule", () => {
+    const organized = organizeLists([{ displayName: "Work (Q1 - Archived)" }], DEFAULT_ORGANIZATION_CONFIG)
+    expect(names(organized)).toEqual({ "📦 Archived - Q1": ["Work (Q1 - Archived)"] })
+  })
+
+  it("lets the first matching rule decide", () => {
+    const organized = organizeLists([{ displayName: "Project Apollo" }], {
+      ...DEFAULT_ORGANIZATION_CONFIG,
+      rules: [
+        { category: "Projects", pattern: "^Project" },
+        { category: "Space", pattern: "Apollo" },
+      ],
+    })
+    expect(Object.keys(organized)).toEqual(["Projects"])
+  })
+
+  it("uses the whole match when the archive pattern has no capture group", () => {
+    const organized = organizeLists([{ displayName: "old stuff [archived]" }], {
+      ...DEFAULT_ORGANIZATION_CONFIG,
+      archivePattern: "\\[archived\\]$",
+    })
+    expect(Object.keys(organized)).toEqual(["📦 Archived - [archived]"])
+  })
+})
+
+describe("sortCategories", () => {
+  it("follows categoryOrder, then sorts unknown categories alphabetically, with archives last", () => {
+    const sorted = sortCategories(
+      ["📦 Archived - B", "Zebra", "📋 Other Lists", "📦 Archived - A", "Alpha", "💼 Work", "⭐ Special Lists"],
+      DEFAULT_ORGANIZATION_CONFIG,
+    )
+    expect(sorted).toEqual([
+      "⭐ Special Lists",
+      "💼 Work",
+      "📋 Other Lists",
+      "Alpha",
+      "Zebra",
+      "📦 Archived - A",
+      "📦 Archived - B",
+    ])
+  })
+})
+
+describe("groupListsByType", () => {
+  it("groups lists by ownership and well-known name", () => {
+    const groups = groupListsByType([
+      { displayName: "Tasks", wellknownListName: "defaultList" },
+      { displayName: "Flagged", wellknownListName: "flaggedEmails" },
+      { displayName: "Mine", isShared: true, isOwner: true },
+      { displayName: "Theirs", isShared: true, isOwner: false },
+      { displayName: "Private" },
+    ])
+    expect(names(groups)).toEqual({
+      "⭐ Default List": ["Tasks"],
+      "🚩 Flagged Emails": ["Flagged"],
+      "📤 Shared by You": ["Mine"],
+      "📥 Shared with You": ["Theirs"],
+      "🔒 Personal Lists": ["Private"],
+    })
+  })
+})
+
+describe("loadOrganizationConfig", () => {
+  let configDir: string
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), "list-organizer-"))
+    vi.stubEnv("MSTODO_ORGANIZATION_RULES", "")
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    rmSync(configDir, { recursive: true, force: true })
+  })
+
+  it("falls back to the defaults without a rules file", () => {
+    expect(loadOrganizationConfig(configDir)).toEqual(DEFAULT_ORGANIZATION_CONFIG)
+  })
+
+  it("reads organization-rules.json, keeping the defaults for fields it leaves out", () => {
+    const rules = [{ category: "Home", pattern: "^Home" }]
+    writeFileSync(join(configDir, "organization-rules.json"), JSON.stringify({ rules }))
+
+    const config = loadOrganizationConfig(configDir)
+    expect(config.rules).toEqual(rules)
+    expect(config.categoryOrder).toEqual(DEFAULT_ORGANIZATION_CONFIG.categoryOrder)
+  })
+
+  it("prefers the file named by MSTODO_ORGANIZATION_RULES", () => {
+    const filePath = join(configDir, "custom.json")
+    writeFileSync(filePath, JSON.stringify({ categoryOrder: ["Home"] }))
+    vi.stubEnv("MSTODO_ORGANIZATION_RULES", filePath)
+
+    expect(loadOrganizationConfig(configDir).categoryOrder).toEqual(["Home"])
+  })
+
+  it("lets the tool argument override the file field by field", () => {
+    writeFileSync(
+      join(configDir, "organization-rules.json"),
+      JSON.stringify({ rules: [{ category: "Home", pattern: "^Home" }], categoryOrder: ["Home"] }),
+    )
+
+    const config = loadOrganizationConfig(configDir, { categoryOrder: ["Work", "Home"] })
+    expect(config.rules).toEqual([{ category: "Home", pattern: "^Home" }])
+    expect(config.categoryOrder).toEqual(["Work", "Home"])
+  })
+
+  it("rejects a rules file that does not match the schema", () => {
+    writeFileSync(join(configDir, "organization-rules.json"), JSON.stringify({ rules: [{ category: "Home" }] }))
+    expect(() => loadOrganizationConfig(configDir)).toThrow(/Invalid organization rules/)
+  })
+
+  it("names the category of an invalid pattern", () => {
+    expect(() => loadOrganizationConfig(configDir, { rules: [{ category: "Broken", pattern: "(" }] })).toThrow(
+      /Invalid pattern for category "Broken"/,
+    )
+  })
+})
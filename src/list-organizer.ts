@@ -0,0 +1,192 @@
+// src/list-organizer.ts
+import { existsSync, readFileSync } from "fs"
+import { join } from "path"
+import { z } from "zod"
+
+// The list fields the organizer looks at
+export interface OrganizableList {
+  displayName: string
+  wellknownListName?: string
+  isShared?: boolean
+  isOwner?: boolean
+}
+
+export const organizationRuleSchema = z.object({
+  category: z.string().describe("Category the matching lists are grouped under, e.g. '💼 Work'"),
+  pattern: z.string().describe("Regular expression tested against the list name, e.g. '^(Work|Project)'"),
+  flags: z.string().optional().describe("Regular expression flags, e.g. 'i' for case-insensitive"),
+})
+
+export const organizationConfigSchema = z.object({
+  rules: z
+    .array(organizationRuleSchema)
+    .optional()
+    .describe("Ordered rules; the first rule whose pattern matches a list name decides its category"),
+  categoryOrder: z
+    .array(z.string())
+    .optional()
+    .describe("Display order of categories; categories not listed follow alphabetically"),
+  archivePattern: z
+    .string()
+    .optional()
+    .describe(
+      "Regular expression (case-insensitive) for archived list names; its first capture group names the archive, e.g. '\\(([^)]+)\\s*-\\s*Archived\\)$'",
+    ),
+})
+
+export type OrganizationRule = z.infer<typeof organizationRuleSchema>
+export type OrganizationConfigInput = z.infer<typeof organizationConfigSchema>
+
+export interface OrganizationConfig {
+  rules: OrganizationRule[]
+  categoryOrder: string[]
+  archivePattern: string
+}
+
+// Fallback categories for lists that no rule matches
+const SPECIAL_CATEGORY = "⭐ Special Lists"
+const SHARED_CATEGORY = "👥 Shared Lists"
+const OTHER_CATEGORY = "📋 Other Lists"
+const ARCHIVED_PREFIX = "📦 Archived - "
+
+export const DEFAULT_ORGANIZATION_CONFIG: OrganizationConfig = {
+  rules: [
+    { category: "📦 Archives", pattern: "^📦\\s*Archive", flags: "i" },
+    { category: "🛒 Shopping Lists", pattern: "^🛒" },
+    { category: "🏡 Properties", pattern: "^🏡" },
+    { category: "👪 Family", pattern: "^👪" },
+    { category: "🎉 Seasonal & Events", pattern: "^(🎄|🎉)" },
+    { category: "💼 Work", pattern: "^(Work|SBIR)", flags: "i" },
+    { category: "🚗 Travel & Rangeley", pattern: "^(🚗|Rangeley)", flags: "i" },
+    { category: "📚 Reading", pattern: "^📰" },
+  ],
+  categoryOrder: [
+    SPECIAL_CATEGORY,
+    SHARED_CATEGORY,
+    "💼 Work",
+    "👪 Family",
+    "🏡 Properties",
+    "🛒 Shopping Lists",
+    "🚗 Travel & Rangeley",
+    "🎉 Seasonal & Events",
+    "📚 Reading",
+    OTHER_CATEGORY,
+    "📦 Archives",
+  ],
+  archivePattern: "\\(([^)]+)\\s*-\\s*Archived\\)$",
+}
+
+// Rules come from the tool argument, else the file named by MSTODO_ORGANIZATION_RULES, else
+// organization-rules.json in the config directory, else the defaults. Fields left out fall back a level.
+export function loadOrganizationConfig(configDir: string, override?: OrganizationConfigInput): OrganizationConfig {
+  const filePath = process.env.MSTODO_ORGANIZATION_RULES || join(configDir, "organization-rules.json")
+
+  let fromFile: OrganizationConfigInput = {}
+  if (existsSync(filePath)) {
+    const parsed = organizationConfigSchema.safeParse(JSON.parse(readFileSync(filePath, "utf8")))
+    if (!parsed.success) {
+      throw new Error(`Invalid organization rules in ${filePath}: ${parsed.error.message}`)
+    }
+    fromFile = parsed.data
+  }
+
+  const config: OrganizationConfig = {
+    rules: override?.rules ?? fromFile.rules ?? DEFAULT_ORGANIZATION_CONFIG.rules,
+    categoryOrder: override?.categoryOrder ?? fromFile.categoryOrder ?? DEFAULT_ORGANIZATION_CONFIG.categoryOrder,
+    archivePattern: override?.archivePattern ?? fromFile.archivePattern ?? DEFAULT_ORGANIZATION_CONFIG.archivePattern,
+  }
+
+  // Fail early, with the offending rule, rather than on the first list
+  for (const rule of config.rules) {
+    try {
+      new RegExp(rule.pattern, rule.flags)
+    } catch (error) {
+      throw new Error(`Invalid pattern for category "${rule.category}": ${rule.pattern} (${error})`, { cause: error })
+    }
+  }
+
+  return config
+}
+
+// Sort lists into categories: archive pattern first, then the rules in order, then special, shared and other
+export function organizeLists<T extends OrganizableList>(
+  lists: T[],
+  config: OrganizationConfig,
+): { [category: string]: T[] } {
+  const organized: { [category: string]: T[] } = {}
+  const archived = new RegExp(config.archivePattern, "i")
+  const rules = config.rules.map((rule) => ({ category: rule.category, regex: new RegExp(rule.pattern, rule.flags) }))
+
+  const add = (category: string, list: T) => {
+    if (!organized[category]) organized[category] = []
+    organized[category].push(list)
+  }
+
+  lists.forEach((list) => {
+    const archiveMatch = list.displayName.match(archived)
+    if (archiveMatch) {
+      add(`${ARCHIVED_PREFIX}${(archiveMatch[1] ?? archiveMatch[0]).trim()}`, list)
+      return
+    }
+
+    const rule = rules.find((r) => r.regex.test(list.displayName))
+    if (rule) {
+      add(rule.category, list)
+    } else if (list.wellknownListName && list.wellknownListName !== "none") {
+      add(SPECIAL_CATEGORY, list)
+    } else if (list.isShared) {
+      add(SHARED_CATEGORY, list)
+    } else {
+      add(OTHER_CATEGORY, list)
+    }
+  })
+
+  return organized
+}
+
+// Categories in configured order; archived groups always go last
+export function sortCategories(categories: string[], config: OrganizationConfig): string[] {
+  return [...categories].sort((a, b) => {
+    const aIsArchived = a.startsWith(ARCHIVED_PREFIX)
+    const bIsArchived = b.startsWith(ARCHIVED_PREFIX)
+
+    if (aIsArchived && !bIsArchived) return 1
+    if (!aIsArchived && bIsArchived) return -1
+    if (aIsArchived && bIsArchived) return a.localeCompare(b)
+
+    const aIndex = config.categoryOrder.indexOf(a)
+    const bIndex = config.categoryOrder.indexOf(b)
+    const aPriority = aIndex === -1 ? Number.MAX_SAFE_INTEGER : aIndex
+    const bPriority = bIndex === -1 ? Number.MAX_SAFE_INTEGER : bIndex
+
+    if (aPriority !== bPriority) return aPriority - bPriority
+    return a.localeCompare(b)
+  })
+}
+
+// Group lists by what kind of list they are rather than by name
+export function groupListsByType<T extends OrganizableList>(lists: T[]): { [type: string]: T[] } {
+  const groups: { [type: string]: T[] } = {}
+
+  lists.forEach((list) => {
+    let type: string
+    if (list.wellknownListName === "defaultList") type = "⭐ Default List"
+    else if (list.wellknownListName === "flaggedEmails") type = "🚩 Flagged Emails"
+    else if (list.isShared && list.isOwner) type = "📤 Shared by You"
+    else if (list.isShared) type = "📥 Shared with You"
+    else type = "🔒 Personal Lists"
+
+    if (!groups[type]) groups[type] = []
+    groups[type].push(list)
+  })
+
+  return groups
+}
+
+export const LIST_TYPE_ORDER = [
+  "⭐ Default List",
+  "🚩 Flagged Emails",
+  "🔒 Personal Lists",
+  "📤 Shared by You",
+  "📥 Shared with You",
+]
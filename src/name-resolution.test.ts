@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { looksLikeGraphId, ResolutionError, resolveByName, resolveIdOrName, resolveList } from "./name-resolution.js"
+
+interface List {
+  id: string
+  displayName: string
+  wellknownListName?: string
+}
+
+const lists: List[] = [
+  { id: "tasks-id", displayName: "Tasks", wellknownListName: "defaultList" },
+  { id: "groceries-id", displayName: "🛒 Groceries!" },
+  { id: "work-id", displayName: "Work" },
+  { id: "work-archive-id", displayName: "Work Archive" },
+  { id: "home-id", displayName: "Home" },
+]
+
+const resolve = (ref: string) =>
+  resolveByName(
+    lists,
+    ref,
+    (list) => list.displayName,
+    "list",
+    (list) => (list.wellknownListName ? [list.wellknownListName] : []),
+  )
+
+// The error a reference fails with, so its candidates can be checked
+function resolutionError(ref: string): ResolutionError {
+  try {
+    resolve(ref)
+  } catch (error) {
+    if (error instanceof ResolutionError) return error
+    throw error
+  }
+  throw new Error(`"${ref}" resolved`)
+}
+
+describe("resolveByName", () => {
+  it("matches by ID", () => {
+    expect(resolve("work-archive-id").id).toBe("work-archive-id")
+  })
+
+  it("prefers an exact name over longer names containing it", () => {
+    expect(resolve("Work").id).toBe("work-id")
+  })
+
+  it("matches names case-insensitively", () => {
+    expect(resolve("work archive").id).toBe("work-archive-id")
+  })
+
+  it("matches wellknownListName aliases", () => {
+    expect(resolve("defaultList").id).toBe("tasks-id")
+  })
+
+  it("ignores emoji and punctuation", () => {
+    expect(resolve("groceries").id).toBe("groceries-id")
+  })
+
+  it("does not pick a partial name, but offers it as a candidate", () => {
+    const error = resolutionError("Arch")
+    expect(error.message).toContain('No list is named "Arch". Did you mean:')
+    expect(error.candidates).toEqual([{ id: "work-archive-id", name: "Work Archive" }])
+  })
+
+  it("does not pick a misspelled name, but offers it as a candidate", () => {
+    const error = resolutionError("Hmoe")
+    expect(error.candidates[0]).toEqual({ id: "home-id", name: "Home" })
+  })
+
+  it("reports every match of an ambiguous name", () => {
+    const duplicates = [...lists, { id: "work-2-id", displayName: "work" }]
+    expect(() => resolveByName(duplicates, "WORK", (list) => list.displayName, "list")).toThrow(
+      /"WORK" matches 2 lists/,
+    )
+  })
+
+  it("lists the closest names when nothing is similar", () => {
+    const error = resolutionError("Quarterly planning")
+    expect(error.message).toContain('No list matches "Quarterly planning". The closest are:')
+    expect(error.candidates.length).toBeGreaterThan(0)
+    expect(error.message).toContain("Retry with one of these IDs or an exact name.")
+  })
+
+  it("says so plainly when there is nothing to choose from", () => {
+    expect(() => resolveByName([] as List[], "Work", (list) => list.displayName, "list")).toThrow(
+      /^No list matches "Work"\.$/,
+    )
+  })
+})
+
+describe("resolveList", () => {
+  it("resolves a listIds filter mixing IDs, names and aliases", () => {
+    const listIds = ["defaultList", "groceries", "work-id"]
+    expect(listIds.map((ref) => resolveList(lists, ref).id)).toEqual(["tasks-id", "groceries-id", "work-id"])
+  })
+
+  it("does not treat a wellknownListName of none as an alias", () => {
+    const withNone = [...lists, { id: "none-id", displayName: "Someday", wellknownListName: "none" }]
+    expect(() => resolveList(withNone, "none")).toThrow(ResolutionError)
+  })
+})
+
+describe("looksLikeGraphId", () => {
+  it("recognizes Graph IDs", () => {
+    expect(looksLikeGraphId("AAMkADIyAAAuAAAAAAB9Tr8VYw5EQ7Lb6wPv4sDWAQCz6SNlRHLuR6XnB6Z5EYQ1AAAAAAESAAA=")).toBe(true)
+  })
+
+  it("treats names and short strings as names", () => {
+    expect(looksLikeGraphId("Groceries")).toBe(false)
+    expect(looksLikeGraphId("A list name that is long enough but has spaces in it")).toBe(false)
+  })
+})
+
+describe("resolveIdOrName", () => {
+  const graphId = "AAMkADIyAAAuAAAAAAB9Tr8VYw5EQ7Lb6wPv4sDWAQCz6SNlRHLuR6XnB6Z5EYQ1AAAAAAESAAA="
+  const longTitle = "quarterly-planning-review-for-the-platform-team"
+  const tasks = [{ id: "review-id", title: longTitle }]
+  const byTitle = async (ref: string) => resolveByName(tasks, ref, (task) => task.title, "task").id
+
+  it("uses an ID that exists without matching names", async () => {
+    const resolveName = vi.fn(byTitle)
+    expect(await resolveIdOrName(graphId, async () => true, resolveName)).toBe(graphId)
+    expect(resolveName).not.toHaveBeenCalled()
+  })
+
+  it("matches a long hyphenated title by name when no item has it as its ID", async () => {
+    expect(looksLikeGraphId(longTitle)).toBe(true)
+    const idExists = vi.fn(async () => false)
+    expect(await resolveIdOrName(longTitle, idExists, byTitle)).toBe("review-id")
+    expect(idExists).toHaveBeenCalledWith(longTitle)
+  })
+
+  it("does not look up references that cannot be IDs", async () => {
+    const idExists = vi.fn(async () => true)
+    await expect(resolveIdOrName("Short title", idExists, async () => "named-id")).resolves.toBe("named-id")
+    expect(idExists).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,128 @@
+// src/name-resolution.ts
+
+// Thrown when a list or task reference matches nothing, or matches more than one candidate
+export class ResolutionError extends Error {
+  constructor(
+    message: string,
+    readonly candidates: { id: string; name: string }[],
+  ) {
+    super(
+      candidates.length > 0
+        ? `${message}\n${candidates.map((c) => `- ${c.name} (ID: ${c.id})`).join("\n")}\nRetry with one of these IDs or an exact name.`
+        : message,
+    )
+    this.name = "ResolutionError"
+  }
+}
+
+// Graph To Do IDs are long base64 strings. A long one-word or hyphenated name has the same shape, so this only
+// decides what to try first, never that a reference is not a name.
+export function looksLikeGraphId(ref: string): boolean {
+  return ref.length >= 40 && /^[A-Za-z0-9+/_-]+={0,2}$/.test(ref)
+}
+
+// Resolve a reference without fetching every candidate when it is an ID: an ID-shaped reference is looked up
+// directly, and only when that finds nothing is it matched by name.
+export async function resolveIdOrName(
+  ref: string,
+  idExists: (id: string) => Promise<boolean>,
+  resolveName: (ref: string) => Promise<string>,
+): Promise<string> {
+  if (looksLikeGraphId(ref) && (await idExists(ref))) return ref
+  return resolveName(ref)
+}
+
+// Lowercase and drop emoji, punctuation and extra spaces so "🛒 Groceries!" matches "groceries"
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Find the one item a reference points to: by ID, exact name, case-insensitive name, alias, then name without
+// emoji and punctuation. Each stage only runs when the previous one found nothing; more than one hit is ambiguous.
+// Partial names and typos are never picked, since the caller may be about to change or delete the item: they
+// only fill the list of candidates in the error.
+export function resolveByName<T extends { id: string }>(
+  items: T[],
+  ref: string,
+  getName: (item: T) => string,
+  kind: string,
+  getAliases: (item: T) => string[] = () => [],
+): T {
+  const toCandidates = (matches: T[]) => matches.map((item) => ({ id: item.id, name: getName(item) }))
+  const pick = (matches: T[]): T | undefined => {
+    if (matches.length === 1) return matches[0]
+    if (matches.length > 1) {
+      throw new ResolutionError(`"${ref}" matches ${matches.length} ${kind}s:`, toCandidates(matches))
+    }
+    return undefined
+  }
+
+  const byId = items.find((item) => item.id === ref)
+  if (byId) return byId
+
+  const lowered = ref.toLowerCase()
+  const normalized = normalizeName(ref)
+
+  const found =
+    pick(items.filter((item) => getName(item) === ref)) ??
+    pick(items.filter((item) => getName(item).toLowerCase() === lowered)) ??
+    pick(items.filter((item) => getAliases(item).some((alias) => alias.toLowerCase() === lowered))) ??
+    (normalized ? pick(items.filter((item) => normalizeName(getName(item)) === normalized)) : undefined)
+  if (found) return found
+
+  // Names containing the reference come first, then the closest by edit distance
+  const scored = items
+    .map((item) => {
+      const name = normalizeName(getName(item))
+      return {
+        item,
+        partial: Boolean(normalized) && name.includes(normalized),
+        distance: levenshtein(name, normalized),
+      }
+    })
+    .sort((a, b) => Number(b.partial) - Number(a.partial) || a.distance - b.distance)
+  const maxDistance = Math.max(2, Math.floor(normalized.length / 4))
+  const similar = scored.filter((s) => s.partial || s.distance <= maxDistance)
+
+  if (similar.length > 0) {
+    throw new ResolutionError(
+      `No ${kind} is named "${ref}". Did you mean:`,
+      toCandidates(similar.slice(0, 5).map((s) => s.item)),
+    )
+  }
+
+  throw new ResolutionError(
+    `No ${kind} matches "${ref}".${scored.length > 0 ? " The closest are:" : ""}`,
+    toCandidates(scored.slice(0, 5).map((s) => s.item)),
+  )
+}
+
+// Find a list by ID, display name, or wellknownListName alias such as "defaultList"
+export function resolveList<T extends { id: string; displayName: string; wellknownListName?: string }>(
+  lists: T[],
+  ref: string,
+): T {
+  return resolveByName(
+    lists,
+    ref,
+    (list) => list.displayName,
+    "list",
+    (list) => (list.wellknownListName && list.wellknownListName !== "none" ? [list.wellknownListName] : []),
+  )
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest"
+
+import { parseNaturalDate } from "./natural-dates.js"
+import type { WallTime } from "./time-zones.js"
+
+// Wednesday 2026-03-04, 10:15
+const NOW: WallTime = { year: 2026, month: 3, day: 4, hour: 10, minute: 15, second: 0 }
+
+// The wall-clock time a phrase resolves to, as "YYYY-MM-DD HH:mm"
+function wall(input: string, now: WallTime = NOW): string | undefined {
+  const parsed = parseNaturalDate(input, now)
+  if (!parsed || !("wall" in parsed)) return undefined
+  const { year, month, day, hour, minute } = parsed.wall
+  const pad = (value: number) => String(value).padStart(2, "0")
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}`
+}
+
+describe("parseNaturalDate", () => {
+  it("reads offsets from now", () => {
+    expect(parseNaturalDate("now", NOW)).toEqual({ offsetMs: 0 })
+    expect(parseNaturalDate("in 2 hours", NOW)).toEqual({ offsetMs: 7_200_000 })
+    expect(parseNaturalDate("in a minute", NOW)).toEqual({ offsetMs: 60_000 })
+  })
+
+  it("reads days relative to today", () => {
+    expect(wall("today")).toBe("2026-03-04 00:00")
+    expect(wall("tomorrow")).toBe("2026-03-05 00:00")
+    expect(wall("yesterday")).toBe("2026-03-03 00:00")
+    expect(wall("in 3 days")).toBe("2026-03-07 00:00")
+    expect(wall("2 weeks from now")).toBe("2026-03-18 00:00")
+  })
+
+  it("reads trailing times", () => {
+    expect(wall("tomorrow 3pm")).toBe("2026-03-05 15:00")
+    expect(wall("tmrw at 9:30am")).toBe("2026-03-05 09:30")
+    expect(wall("yesterday noon")).toBe("2026-03-03 12:00")
+    expect(wall("friday @ midnight")).toBe("2026-03-06 00:00")
+    expect(wall("at 15:00")).toBe("2026-03-04 15:00")
+    expect(wall("12am")).toBe("2026-03-04 00:00")
+  })
+
+  it("reads tonight as the evening unless a time is given", () => {
+    expect(wall("tonight")).toBe("2026-03-04 20:00")
+    expect(wall("tonight 11pm")).toBe("2026-03-04 23:00")
+  })
+
+  it("takes a weekday as the coming one and next as the one after today", () => {
+    expect(wall("friday")).toBe("2026-03-06 00:00")
+    expect(wall("this wed")).toBe("2026-03-04 00:00")
+    expect(wall("next wednesday")).toBe("2026-03-11 00:00")
+    expect(wall("next fri 3pm")).toBe("2026-03-06 15:00")
+  })
+
+  it("reads the end of the day as the end of the working day", () => {
+    expect(wall("eod")).toBe("2026-03-04 17:00")
+    expect(wall("end of the day")).toBe("2026-03-04 17:00")
+    expect(wall("eod 6pm")).toBe("2026-03-04 18:00")
+  })
+
+  it("reads the ends of periods", () => {
+    expect(wall("eow")).toBe("2026-03-06 00:00")
+    expect(wall("end of the month")).toBe("2026-03-31 00:00")
+    expect(wall("end of next month")).toBe("2026-04-30 00:00")
+    expect(wall("eoy")).toBe("2026-12-31 00:00")
+  })
+
+  it("starts the next week, month and year on their first day", () => {
+    expect(wall("next week")).toBe("2026-03-09 00:00")
+    expect(wall("next month")).toBe("2026-04-01 00:00")
+    expect(wall("next year")).toBe("2027-01-01 00:00")
+  })
+
+  it("clamps month steps to the end of shorter months", () => {
+    const endOfJanuary: WallTime = { ...NOW, month: 1, day: 31 }
+    expect(wall("in 1 month", endOfJanuary)).toBe("2026-02-28 00:00")
+    expect(wall("end of next month", endOfJanuary)).toBe("2026-02-28 00:00")
+  })
+
+  it("ignores case, commas and extra spaces", () => {
+    expect(wall("  Next  Monday, 9AM ")).toBe("2026-03-09 09:00")
+  })
+
+  it("returns undefined for anything it does not understand", () => {
+    expect(parseNaturalDate("someday", NOW)).toBeUndefined()
+    expect(parseNaturalDate("in 3", NOW)).toBeUndefined()
+    expect(parseNaturalDate("friday 25:00", NOW)).toBeUndefined()
+    expect(parseNaturalDate("tomorrow 13pm", NOW)).toBeUndefined()
+  })
+})
@@ -0,0 +1,166 @@
+// src/natural-dates.ts
+import type { WallTime } from "./time-zones.js"
+
+// A parsed phrase: either a wall-clock time in the user's zone, or an offset from now ("in 2 hours")
+export type NaturalDate = { wall: WallTime } | { offsetMs: number }
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]
+const WEEKDAY_ABBREVIATIONS: Record<string, number> = {
+  sun: 0,
+  mon: 1,
+  tue: 2,
+  tues: 2,
+  wed: 3,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  fri: 5,
+  sat: 6,
+}
+
+const UNIT_MS: Record<string, number> = { minute: 60_000, hour: 3_600_000 }
+
+interface CalendarDate {
+  year: number
+  month: number
+  day: number
+}
+
+function weekdayIndex(word: string): number | undefined {
+  const index = WEEKDAYS.indexOf(word)
+  return index !== -1 ? index : WEEKDAY_ABBREVIATIONS[word]
+}
+
+// Calendar arithmetic through Date.UTC, so month and year overflow is handled for us
+function shiftDate(date: CalendarDate, days: number, months = 0, years = 0): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year + years, date.month - 1 + months, 1))
+  // Clamp to the last day of the target month ("in 1 month" from Jan 31 is Feb 28/29)
+  const lastDay = new Date(Date.UTC(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, 0)).getUTCDate()
+  shifted.setUTCDate(Math.min(date.day, lastDay) + days)
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() }
+}
+
+function dayOfWeek(date: CalendarDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay()
+}
+
+function lastDayOfMonth(date: CalendarDate): CalendarDate {
+  return { ...date, day: new Date(Date.UTC(date.year, date.month, 0)).getUTCDate() }
+}
+
+// "3pm", "3:30 pm", "15:00", "noon", "midnight", optionally after "at"
+function parseTime(text: string): { hour: number; minute: number } | undefined {
+  if (text === "noon") return { hour: 12, minute: 0 }
+  if (text === "midnight") return { hour: 0, minute: 0 }
+
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/)
+  if (!match) return undefined
+
+  let hour = Number(match[1])
+  const minute = match[2] ? Number(match[2]) : 0
+  const meridiem = match[3]
+
+  // A bare number is a day count or a typo, not a time
+  if (!meridiem && !match[2]) return undefined
+  if (minute > 59) return undefined
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return undefined
+    if (meridiem === "pm" && hour !== 12) hour += 12
+    if (meridiem === "am" && hour === 12) hour = 0
+  } else if (hour > 23) {
+    return undefined
+  }
+
+  return { hour, minute }
+}
+
+// The date part of a phrase, relative to today
+function parseDay(text: string, today: CalendarDate): CalendarDate | undefined {
+  if (text === "" || text === "today" || text === "tonight") return today
+  if (text === "tomorrow" || text === "tmr" || text === "tmrw") return shiftDate(today, 1)
+  if (text === "yesterday") return shiftDate(today, -1)
+
+  if (text === "eod" || text === "end of day" || text === "end of the day") return today
+  if (text === "eow" || text === "end of week" || text === "end of the week") {
+    // The coming Friday, or today when it is Friday
+    return shiftDate(today, (5 - dayOfWeek(today) + 7) % 7)
+  }
+  if (text === "eom" || text === "end of month" || text === "end of the month") return lastDayOfMonth(today)
+  if (text === "end of next month") return lastDayOfMonth(shiftDate({ ...today, day: 1 }, 0, 1))
+  if (text === "eoy" || text === "end of year" || text === "end of the year") {
+    return { year: today.year, month: 12, day: 31 }
+  }
+
+  // Weeks start on Monday
+  if (text === "next week") return shiftDate(today, (1 - dayOfWeek(today) + 7) % 7 || 7)
+  if (text === "next month") return shiftDate({ ...today, day: 1 }, 0, 1)
+  if (text === "next year") return { year: today.year + 1, month: 1, day: 1 }
+
+  // "in 3 days", "in a week", "2 weeks from now"
+  const relative =
+    text.match(/^in (\d+|a|an) (day|week|month|year)s?$/) || text.match(/^(\d+|a|an) (day|week|month|year)s? from now$/)
+  if (relative) {
+    const amount = relative[1] === "a" || relative[1] === "an" ? 1 : Number(relative[1])
+    switch (relative[2]) {
+      case "day":
+        return shiftDate(today, amount)
+      case "week":
+        return shiftDate(today, amount * 7)
+      case "month":
+        return shiftDate(today, 0, amount)
+      case "year":
+        return shiftDate(today, 0, 0, amount)
+    }
+  }
+
+  // "friday" and "this friday" mean the coming one (today included); "next friday" is the first one after today
+  const weekday = text.match(/^(this |next )?([a-z]+)$/)
+  if (weekday) {
+    const target = weekdayIndex(weekday[2])
+    if (target !== undefined) {
+      const ahead = (target - dayOfWeek(today) + 7) % 7
+      return shiftDate(today, weekday[1] === "next " ? ahead || 7 : ahead)
+    }
+  }
+
+  return undefined
+}
+
+// Resolve phrases such as "tomorrow", "in 3 days", "next monday 9am", "friday at 3pm" or "eom" against
+// the current wall-clock time in the user's zone. Returns undefined for anything it does not understand,
+// so callers can report the input rather than guess.
+export function parseNaturalDate(input: string, now: WallTime): NaturalDate | undefined {
+  const text = input.trim().toLowerCase().replace(/\s+/g, " ").replace(/,/g, "")
+  if (text === "now") return { offsetMs: 0 }
+
+  // "in 2 hours", "in 30 minutes"
+  const relativeTime = text.match(/^in (\d+|a|an) (minute|hour)s?$/)
+  if (relativeTime) {
+    const amount = relativeTime[1] === "a" || relativeTime[1] === "an" ? 1 : Number(relativeTime[1])
+    return { offsetMs: amount * UNIT_MS[relativeTime[2]] }
+  }
+
+  const today: CalendarDate = { year: now.year, month: now.month, day: now.day }
+
+  // Split off a trailing time: "next monday 9am", "friday at 3:30pm", "tomorrow noon"
+  let time: { hour: number; minute: number } | undefined
+  let dayText = text
+  const timeMatch = text.match(/^(.*?)\s*(?:\bat\s+|@\s*)?(noon|midnight|\d{1,2}(?::\d{2})?\s*(?:am|pm)?)$/)
+  if (timeMatch) {
+    const parsedTime = parseTime(timeMatch[2])
+    if (parsedTime) {
+      time = parsedTime
+      dayText = timeMatch[1].trim()
+    }
+  }
+
+  // Without a time, "tonight" means the evening and "eod" the end of the working day
+  if (!time && text === "tonight") time = { hour: 20, minute: 0 }
+  if (!time && (text === "eod" || text === "end of day" || text === "end of the day")) time = { hour: 17, minute: 0 }
+
+  const day = parseDay(dayText, today)
+  if (!day) return undefined
+
+  return { wall: { ...day, hour: time?.hour ?? 0, minute: time?.minute ?? 0, second: 0 } }
+}
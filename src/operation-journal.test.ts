@@ -0,0 +1,101 @@
+import { appendFileSync, mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { type JournalRecord, OperationJournal } from "./operation-journal.js"
+
+interface Entry extends JournalRecord {
+  summary: string
+}
+
+let count = 0
+const entry = (sessionId: string, summary: string, undoes?: string): Entry => ({
+  id: `entry-${++count}`,
+  sessionId,
+  timestamp: new Date(Date.UTC(2026, 2, 1, 10, count)).toISOString(),
+  summary,
+  ...(undoes ? { undoes } : {}),
+})
+
+describe("OperationJournal", () => {
+  let configDir: string
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), "operation-journal-"))
+  })
+
+  afterEach(() => {
+    rmSync(configDir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  it("keeps entries in the order they were written across instances", () => {
+    const journal = new OperationJournal<Entry>(configDir)
+    const first = entry("session-a", "Create task")
+    const second = entry("session-a", "Update task")
+    journal.append(first)
+    journal.append(second)
+
+    const reloaded = new OperationJournal<Entry>(configDir)
+    expect(reloaded.getEntries()).toEqual([first, second])
+    expect(reloaded.getEntry(second.id)).toEqual(second)
+    expect(reloaded.getEntry("missing")).toBeUndefined()
+  })
+
+  it("skips a line cut short by a crash and keeps reading", () => {
+    const journal = new OperationJournal<Entry>(configDir)
+    const first = entry("session-a", "Create task")
+    const last = entry("session-a", "Delete task")
+    journal.append(first)
+    appendFileSync(journal.filePath, '{"id":"entry-cut","sessionId":"sess\n', "utf8")
+    journal.append(last)
+
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {})
+    expect(new OperationJournal<Entry>(configDir).getEntries()).toEqual([first, last])
+    expect(errors).toHaveBeenCalledWith(`Skipping unreadable line 2 of ${journal.filePath}`)
+  })
+
+  it("finds the entry that undid another", () => {
+    const journal = new OperationJournal<Entry>(configDir)
+    const change = entry("session-a", "Update task")
+    const undo = entry("session-a", "Undo: Update task", change.id)
+    journal.append(change)
+    expect(journal.undoneBy(change.id)).toBeUndefined()
+
+    journal.append(undo)
+    expect(journal.undoneBy(change.id)).toEqual(undo)
+    expect(journal.undoneBy(undo.id)).toBeUndefined()
+  })
+
+  it("refuses to undo an entry that was already undone", () => {
+    const journal = new OperationJournal<Entry>(configDir)
+    const change = entry("session-a", "Update task")
+    journal.append(change)
+    expect(journal.undoRefusal(change.id)).toBeUndefined()
+
+    const undo = entry("session-a", "Undo: Update task", change.id)
+    journal.append(undo)
+    expect(journal.undoRefusal(change.id)).toBe(`Journal entry ${change.id} was already undone by ${undo.id}.`)
+    // The undo itself can still be undone, which redoes the change
+    expect(journal.undoRefusal(undo.id)).toBeUndefined()
+  })
+
+  it("steps back through a session's entries that are still in effect", () => {
+    const journal = new OperationJournal<Entry>(configDir)
+    const first = entry("session-a", "Create task")
+    const other = entry("session-b", "Delete list")
+    const second = entry("session-a", "Update task")
+    journal.append(first)
+    journal.append(other)
+    journal.append(second)
+    expect(journal.lastUndoable("session-a")).toEqual(second)
+
+    journal.append(entry("session-a", "Undo: Update task", second.id))
+    expect(journal.lastUndoable("session-a")).toEqual(first)
+
+    journal.append(entry("session-a", "Undo: Create task", first.id))
+    expect(journal.lastUndoable("session-a")).toBeUndefined()
+    expect(journal.lastUndoable("session-b")).toEqual(other)
+  })
+})
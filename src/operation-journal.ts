@@ -0,0 +1,80 @@
+// src/operation-journal.ts
+import { appendFileSync, existsSync, readFileSync } from "fs"
+import { join } from "path"
+
+// What every journal entry carries; the rest of an entry is defined by the caller
+export interface JournalRecord {
+  id: string
+  sessionId: string
+  timestamp: string
+  // The entry this one reverses, for entries written by an undo
+  undoes?: string
+}
+
+// Append-only log of the changes the server made, one JSON object per line in journal.jsonl.
+// Entries are never rewritten: an undo is recorded as a new entry pointing at the one it reverses.
+export class OperationJournal<TEntry extends JournalRecord> {
+  private journalFilePath: string
+  private entries: TEntry[] | null = null
+
+  constructor(configDir: string) {
+    this.journalFilePath = join(configDir, "journal.jsonl")
+  }
+
+  private load(): TEntry[] {
+    if (this.entries) return this.entries
+
+    this.entries = []
+    if (existsSync(this.journalFilePath)) {
+      const lines = readFileSync(this.journalFilePath, "utf8").split("\n")
+      for (const [index, line] of lines.entries()) {
+        if (!line.trim()) continue
+        try {
+          this.entries.push(JSON.parse(line))
+        } catch {
+          // A line cut short by a crash should not make the rest of the journal unreadable
+          console.error(`Skipping unreadable line ${index + 1} of ${this.journalFilePath}`)
+        }
+      }
+    }
+    return this.entries
+  }
+
+  get filePath(): string {
+    return this.journalFilePath
+  }
+
+  append(entry: TEntry): void {
+    appendFileSync(this.journalFilePath, JSON.stringify(entry) + "\n", "utf8")
+    this.load().push(entry)
+  }
+
+  // Oldest first, in the order they were written
+  getEntries(): TEntry[] {
+    return [...this.load()]
+  }
+
+  getEntry(id: string): TEntry | undefined {
+    return this.load().find((entry) => entry.id === id)
+  }
+
+  // The entry that reversed the given one, if it has been undone
+  undoneBy(id: string): TEntry | undefined {
+    return this.load().find((entry) => entry.undoes === id)
+  }
+
+  // Why an entry cannot be undone, or undefined when it can. Undoing it twice would reverse the changes of
+  // whatever came after the first undo.
+  undoRefusal(id: string): string | undefined {
+    const undoneBy = this.undoneBy(id)
+    return undoneBy ? `Journal entry ${id} was already undone by ${undoneBy.id}.` : undefined
+  }
+
+  // The newest entry of a session that is still in effect. Undo entries are skipped, so undoing this repeatedly
+  // keeps stepping back instead of redoing.
+  lastUndoable(sessionId: string): TEntry | undefined {
+    return [...this.load()]
+      .reverse()
+      .find((entry) => entry.sessionId === sessionId && !entry.undoes && !this.undoneBy(entry.id))
+  }
+}
@@ -0,0 +1,101 @@
+// src/output-schemas.ts
+import { z } from "zod"
+
+// Zod mirrors of the Graph entities the tools return, used in the tools' outputSchema so clients get the
+// same fields in structuredContent that the text output describes. Graph leaves out (or nulls) properties
+// that are not set, so everything beyond the identifying fields is nullish.
+
+export const dateTimeTimeZoneSchema = z.object({
+  dateTime: z.string(),
+  timeZone: z.string(),
+})
+
+export const taskListSchema = z.object({
+  id: z.string(),
+  displayName: z.string(),
+  isOwner: z.boolean().nullish(),
+  isShared: z.boolean().nullish(),
+  wellknownListName: z.string().nullish(),
+})
+
+export const checklistItemSchema = z.object({
+  id: z.string(),
+  displayName: z.string(),
+  isChecked: z.boolean(),
+  createdDateTime: z.string().nullish(),
+  checkedDateTime: z.string().nullish(),
+})
+
+export const linkedResourceSchema = z.object({
+  id: z.string(),
+  webUrl: z.string().nullish(),
+  applicationName: z.string().nullish(),
+  displayName: z.string().nullish(),
+  externalId: z.string().nullish(),
+})
+
+export const attachmentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  contentType: z.string().nullish(),
+  size: z.number().nullish(),
+  lastModifiedDateTime: z.string().nullish(),
+})
+
+export const recurrenceOutputSchema = z.object({
+  pattern: z.object({
+    type: z.string(),
+    interval: z.number(),
+    daysOfWeek: z.array(z.string()).nullish(),
+    dayOfMonth: z.number().nullish(),
+    month: z.number().nullish(),
+    index: z.string().nullish(),
+    firstDayOfWeek: z.string().nullish(),
+  }),
+  range: z.object({
+    type: z.string(),
+    startDate: z.string(),
+    endDate: z.string().nullish(),
+    numberOfOccurrences: z.number().nullish(),
+    recurrenceTimeZone: z.string().nullish(),
+  }),
+})
+
+export const taskSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  status: z.string(),
+  importance: z.string(),
+  dueDateTime: dateTimeTimeZoneSchema.nullish(),
+  completedDateTime: dateTimeTimeZoneSchema.nullish(),
+  reminderDateTime: dateTimeTimeZoneSchema.nullish(),
+  startDateTime: dateTimeTimeZoneSchema.nullish(),
+  isReminderOn: z.boolean().nullish(),
+  recurrence: recurrenceOutputSchema.nullish(),
+  body: z.object({ content: z.string(), contentType: z.string() }).nullish(),
+  categories: z.array(z.string()).nullish(),
+  hasAttachments: z.boolean().nullish(),
+  createdDateTime: z.string().nullish(),
+  lastModifiedDateTime: z.string().nullish(),
+  checklistItems: z.array(checklistItemSchema).nullish(),
+  linkedResources: z.array(linkedResourceSchema).nullish(),
+})
+
+// get-tasks can narrow the properties with $select, so only the ID is guaranteed there
+export const selectedTaskSchema = taskSchema.partial().extend({ id: z.string() })
+
+// A task together with the list it belongs to, for tools that work across lists
+export const listTaskSchema = z.object({
+  listId: z.string(),
+  listName: z.string(),
+  task: taskSchema,
+})
+
+// A task on the agenda, with its due date in the user's time zone
+export const agendaItemSchema = listTaskSchema.extend({ dueDate: z.string().optional() })
+
+// Added-or-changed and removed counts of a sync
+export const changeCountsSchema = z.object({ changed: z.number(), removed: z.number() })
+
+// Continuation cursor of a paged read, when Graph has more results
+export const nextCursorSchema = z.string().optional().describe("Pass as cursor to read the next page")
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+
+import { decodeCursor, encodeCursor } from "./paging-cursor.js"
+
+const GRAPH = "https://graph.microsoft.com/v1.0"
+
+describe("paging cursors", () => {
+  it("round-trips a Graph nextLink", () => {
+    const nextLink = `${GRAPH}/me/todo/lists/AAMk=/tasks?$skiptoken=abc%3D%3D&$top=50`
+    expect(decodeCursor(encodeCursor(nextLink), GRAPH)).toBe(nextLink)
+  })
+
+  it("produces cursors without characters that need escaping", () => {
+    expect(encodeCursor(`${GRAPH}/me/todo/lists?$skip=10&filter=a+b/c`)).toMatch(/^[A-Za-z0-9_-]+$/)
+  })
+
+  it("rejects cursors that point outside the base URL", () => {
+    expect(() => decodeCursor(encodeCursor("https://evil.example/steal"), GRAPH)).toThrow(/Invalid cursor/)
+    // A look-alike host that merely starts with the base URL
+    expect(() => decodeCursor(encodeCursor(`${GRAPH}.evil.example/x`), GRAPH)).toThrow(/Invalid cursor/)
+  })
+
+  it("rejects cursors that are not encoded links", () => {
+    expect(() => decodeCursor("not-a-cursor", GRAPH)).toThrow(/Invalid cursor/)
+  })
+})
@@ -0,0 +1,18 @@
+// src/paging-cursor.ts
+
+// Continuation cursors are the Graph nextLink, base64url-encoded so the model passes them back untouched
+export function encodeCursor(nextLink: string): string {
+  return Buffer.from(nextLink, "utf8").toString("base64url")
+}
+
+// The nextLink inside a cursor. Only links under baseUrl are accepted, so the bearer token is never sent
+// anywhere other than Microsoft Graph.
+export function decodeCursor(cursor: string, baseUrl: string): string {
+  const nextLink = Buffer.from(cursor, "base64url").toString("utf8")
+
+  if (!nextLink.startsWith(`${baseUrl}/`)) {
+    throw new Error("Invalid cursor. Pass the cursor value exactly as returned by the previous call.")
+  }
+
+  return nextLink
+}
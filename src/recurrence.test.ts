@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { describeRecurrence, recurrenceSchema, toPatternedRecurrence } from "./recurrence.js"
+import { type UserTimeZone, UTC_TIME_ZONE } from "./time-zones.js"
+
+// Messages of the issues a recurrence argument fails validation with
+function issues(input: unknown): string[] {
+  const result = recurrenceSchema.safeParse(input)
+  return result.success ? [] : result.error.issues.map((issue) => issue.message)
+}
+
+describe("recurrenceSchema", () => {
+  it("accepts a complete pattern", () => {
+    expect(issues({ type: "weekly", daysOfWeek: ["monday"], interval: 2, endDate: "2026-06-30" })).toEqual([])
+  })
+
+  it("requires the fields each pattern type needs", () => {
+    expect(issues({ type: "weekly" })).toEqual(["daysOfWeek is required for weekly recurrence"])
+    expect(issues({ type: "absoluteMonthly" })).toEqual(["dayOfMonth is required for absoluteMonthly recurrence"])
+    expect(issues({ type: "relativeMonthly" })).toEqual(["daysOfWeek is required for relativeMonthly recurrence"])
+    expect(issues({ type: "absoluteYearly" })).toEqual([
+      "month is required for absoluteYearly recurrence",
+      "dayOfMonth is required for absoluteYearly recurrence",
+    ])
+    expect(issues({ type: "relativeYearly", month: 3 })).toEqual([
+      "daysOfWeek is required for relativeYearly recurrence",
+    ])
+  })
+
+  it("rejects both an end date and a number of occurrences", () => {
+    expect(issues({ type: "daily", endDate: "2026-06-30", occurrences: 3 })).toEqual([
+      "Give either endDate or occurrences, not both",
+    ])
+  })
+
+  it("rejects an end date before the start date", () => {
+    expect(issues({ type: "daily", startDate: "2026-03-01", endDate: "2026-02-01" })).toEqual([
+      "endDate is before startDate",
+    ])
+  })
+
+  it("rejects malformed dates and out-of-range values", () => {
+    expect(issues({ type: "daily", startDate: "03/01/2026" })).toEqual(["must be YYYY-MM-DD"])
+    expect(issues({ type: "absoluteMonthly", dayOfMonth: 32 })).toHaveLength(1)
+    expect(issues({ type: "daily", interval: 0 })).toHaveLength(1)
+  })
+})
+
+describe("toPatternedRecurrence", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("fills in Graph's defaults for weekly patterns", () => {
+    expect(
+      toPatternedRecurrence(
+        { type: "weekly", daysOfWeek: ["monday", "thursday"] },
+        UTC_TIME_ZONE,
+        "2026-03-02T00:00:00",
+      ),
+    ).toEqual({
+      pattern: { type: "weekly", interval: 1, daysOfWeek: ["monday", "thursday"], firstDayOfWeek: "sunday" },
+      range: { type: "noEnd", startDate: "2026-03-02" },
+    })
+  })
+
+  it("defaults relative patterns to the first occurrence of the weekday", () => {
+    const { pattern } = toPatternedRecurrence(
+      { type: "relativeMonthly", daysOfWeek: ["tuesday"] },
+      UTC_TIME_ZONE,
+      "2026-03-10",
+    )
+    expect(pattern).toEqual({ type: "relativeMonthly", interval: 1, daysOfWeek: ["tuesday"], index: "first" })
+  })
+
+  it("drops fields the pattern type does not use", () => {
+    const { pattern } = toPatternedRecurrence(
+      { type: "daily", daysOfWeek: ["monday"], dayOfMonth: 5 },
+      UTC_TIME_ZONE,
+      "2026-03-10",
+    )
+    expect(pattern).toEqual({ type: "daily", interval: 1 })
+  })
+
+  it("picks the range from endDate or occurrences", () => {
+    expect(toPatternedRecurrence({ type: "daily", endDate: "2026-06-30" }, UTC_TIME_ZONE, "2026-03-01").range).toEqual({
+      type: "endDate",
+      startDate: "2026-03-01",
+      endDate: "2026-06-30",
+    })
+    expect(toPatternedRecurrence({ type: "daily", occurrences: 5 }, UTC_TIME_ZONE, "2026-03-01").range).toEqual({
+      type: "numbered",
+      startDate: "2026-03-01",
+      numberOfOccurrences: 5,
+    })
+  })
+
+  it("starts on the given start date, else the due date, else today", () => {
+    expect(
+      toPatternedRecurrence({ type: "daily", startDate: "2026-04-01" }, UTC_TIME_ZONE, "2026-03-01").range.startDate,
+    ).toBe("2026-04-01")
+
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date("2026-05-20T12:00:00Z"))
+    expect(toPatternedRecurrence({ type: "daily" }, UTC_TIME_ZONE).range.startDate).toBe("2026-05-20")
+  })
+
+  it("takes today from the user's zone, not UTC", () => {
+    const losAngeles: UserTimeZone = {
+      iana: "America/Los_Angeles",
+      graphName: "Pacific Standard Time",
+      source: "mailbox",
+    }
+    const tokyo: UserTimeZone = { iana: "Asia/Tokyo", graphName: "Tokyo Standard Time", source: "mailbox" }
+    vi.useFakeTimers()
+
+    // 20:00 on May 20 in Los Angeles is already May 21 in UTC
+    vi.setSystemTime(new Date("2026-05-21T03:00:00Z"))
+    expect(toPatternedRecurrence({ type: "daily" }, losAngeles).range.startDate).toBe("2026-05-20")
+
+    // 07:00 on May 21 in Tokyo is still May 20 in UTC
+    vi.setSystemTime(new Date("2026-05-20T22:00:00Z"))
+    expect(toPatternedRecurrence({ type: "daily" }, tokyo).range.startDate).toBe("2026-05-21")
+  })
+})
+
+describe("describeRecurrence", () => {
+  const describeInput = (input: Parameters<typeof toPatternedRecurrence>[0]) =>
+    describeRecurrence(toPatternedRecurrence(input, UTC_TIME_ZONE, "2026-03-01"))
+
+  it("summarizes each pattern type", () => {
+    expect(describeInput({ type: "daily" })).toBe("Every day")
+    expect(describeInput({ type: "daily", interval: 3 })).toBe("Every 3 days")
+    expect(describeInput({ type: "weekly", interval: 2, daysOfWeek: ["monday", "wednesday", "friday"] })).toBe(
+      "Every 2 weeks on Monday, Wednesday and Friday",
+    )
+    expect(describeInput({ type: "absoluteMonthly", dayOfMonth: 15 })).toBe("Every month on day 15")
+    expect(describeInput({ type: "relativeMonthly", index: "second", daysOfWeek: ["tuesday"] })).toBe(
+      "Every month on the second Tuesday",
+    )
+    expect(describeInput({ type: "absoluteYearly", month: 7, dayOfMonth: 4 })).toBe("Every year on July 4")
+    expect(describeInput({ type: "relativeYearly", month: 11, index: "fourth", daysOfWeek: ["thursday"] })).toBe(
+      "Every year on the fourth Thursday of November",
+    )
+  })
+
+  it("mentions how the recurrence ends", () => {
+    expect(describeInput({ type: "weekly", daysOfWeek: ["monday"], endDate: "2026-06-30" })).toBe(
+      "Every week on Monday, until 2026-06-30",
+    )
+    expect(describeInput({ type: "daily", occurrences: 10 })).toBe("Every day, 10 times")
+  })
+
+  it("falls back to the raw type for patterns it does not know", () => {
+    const recurrence = toPatternedRecurrence({ type: "daily" }, UTC_TIME_ZONE, "2026-03-01")
+    const unknown = { ...recurrence, pattern: { ...recurrence.pattern, type: "hourly" } }
+    expect(describeRecurrence(unknown as unknown as typeof recurrence)).toBe("Repeats (hourly)")
+  })
+})
@@ -0,0 +1,214 @@
+// src/recurrence.ts
+import { z } from "zod"
+
+import { todayInTimeZone, type UserTimeZone } from "./time-zones.js"
+
+const DAYS_OF_WEEK = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const
+const WEEK_INDEXES = ["first", "second", "third", "fourth", "last"] as const
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+]
+
+export type DayOfWeek = (typeof DAYS_OF_WEEK)[number]
+export type WeekIndex = (typeof WEEK_INDEXES)[number]
+
+// Graph's patternedRecurrence, as stored on a todoTask
+export interface PatternedRecurrence {
+  pattern: {
+    type: "daily" | "weekly" | "absoluteMonthly" | "relativeMonthly" | "absoluteYearly" | "relativeYearly"
+    interval: number
+    daysOfWeek?: DayOfWeek[]
+    dayOfMonth?: number
+    month?: number
+    index?: WeekIndex
+    firstDayOfWeek?: DayOfWeek
+  }
+  range: {
+    type: "endDate" | "noEnd" | "numbered"
+    startDate: string
+    endDate?: string
+    numberOfOccurrences?: number
+    recurrenceTimeZone?: string
+  }
+}
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/
+
+export const recurrenceSchema = z
+  .object({
+    type: z
+      .enum(["daily", "weekly", "absoluteMonthly", "relativeMonthly", "absoluteYearly", "relativeYearly"])
+      .describe(
+        "daily; weekly (on daysOfWeek); absoluteMonthly (on dayOfMonth); relativeMonthly (e.g. the second Tuesday: index + daysOfWeek); absoluteYearly (month + dayOfMonth); relativeYearly (month + index + daysOfWeek)",
+      ),
+    interval: z.number().int().min(1).optional().describe("Repeat every N days, weeks, months or years (default: 1)"),
+    daysOfWeek: z
+      .array(z.enum(DAYS_OF_WEEK))
+      .min(1)
+      .optional()
+      .describe("Days of the week, for weekly, relativeMonthly and relativeYearly"),
+    dayOfMonth: z.number().int().min(1).max(31).optional().describe("Day of the month, for absolute patterns"),
+    month: z.number().int().min(1).max(12).optional().describe("Month (1-12), for yearly patterns"),
+    index: z
+      .enum(WEEK_INDEXES)
+      .optional()
+      .describe("Which occurrence of the weekday in the month, for relative patterns (default: first)"),
+    firstDayOfWeek: z.enum(DAYS_OF_WEEK).optional().describe("First day of the week, for weekly (default: sunday)"),
+    startDate: z
+      .string()
+      .regex(datePattern, "must be YYYY-MM-DD")
+      .optional()
+      .describe("First date of the recurrence (YYYY-MM-DD, default: the due date, or today)"),
+    endDate: z
+      .string()
+      .regex(datePattern, "must be YYYY-MM-DD")
+      .optional()
+      .describe("Last date of the recurrence (YYYY-MM-DD)"),
+    occurrences: z.number().int().min(1).optional().describe("Stop after this many occurrences"),
+  })
+  .superRefine((value, ctx) => {
+    const require = (field: keyof typeof value, reason: string) => {
+      if (value[field] === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${field} is required ${reason}` })
+      }
+    }
+
+    switch (value.type) {
+      case "weekly":
+        require("daysOfWeek", "for weekly recurrence")
+        break
+      case "absoluteMonthly":
+        require("dayOfMonth", "for absoluteMonthly recurrence")
+        break
+      case "relativeMonthly":
+        require("daysOfWeek", "for relativeMonthly recurrence")
+        break
+      case "absoluteYearly":
+        require("month", "for absoluteYearly recurrence")
+        require("dayOfMonth", "for absoluteYearly recurrence")
+        break
+      case "relativeYearly":
+        require("month", "for relativeYearly recurrence")
+        require("daysOfWeek", "for relativeYearly recurrence")
+        break
+    }
+
+    if (value.endDate && value.occurrences) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["occurrences"],
+        message: "Give either endDate or occurrences, not both",
+      })
+    }
+
+    if (value.startDate && value.endDate && value.endDate < value.startDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "endDate is before startDate" })
+    }
+  })
+
+export type RecurrenceInput = z.infer<typeof recurrenceSchema>
+
+// Turn the tool arguments into Graph's patternedRecurrence. The range needs a start date, so fall back
+// to the task's due date, then today in the user's zone.
+export function toPatternedRecurrence(
+  input: RecurrenceInput,
+  zone: UserTimeZone,
+  dueDate?: string,
+): PatternedRecurrence {
+  const startDate = input.startDate ?? dueDate?.substring(0, 10) ?? todayInTimeZone(zone)
+  const pattern: PatternedRecurrence["pattern"] = { type: input.type, interval: input.interval ?? 1 }
+
+  switch (input.type) {
+    case "weekly":
+      pattern.daysOfWeek = input.daysOfWeek
+      pattern.firstDayOfWeek = input.firstDayOfWeek ?? "sunday"
+      break
+    case "absoluteMonthly":
+      pattern.dayOfMonth = input.dayOfMonth
+      break
+    case "relativeMonthly":
+      pattern.daysOfWeek = input.daysOfWeek
+      pattern.index = input.index ?? "first"
+      break
+    case "absoluteYearly":
+      pattern.month = input.month
+      pattern.dayOfMonth = input.dayOfMonth
+      break
+    case "relativeYearly":
+      pattern.month = input.month
+      pattern.daysOfWeek = input.daysOfWeek
+      pattern.index = input.index ?? "first"
+      break
+  }
+
+  let range: PatternedRecurrence["range"]
+  if (input.endDate) {
+    range = { type: "endDate", startDate, endDate: input.endDate }
+  } else if (input.occurrences) {
+    range = { type: "numbered", startDate, numberOfOccurrences: input.occurrences }
+  } else {
+    range = { type: "noEnd", startDate }
+  }
+
+  return { pattern, range }
+}
+
+// A readable summary, e.g. "Every 2 weeks on Monday and Thursday, until 2026-06-30"
+export function describeRecurrence(recurrence: PatternedRecurrence): string {
+  const { pattern, range } = recurrence
+  const interval = pattern.interval || 1
+  const every = (unit: string) => (interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`)
+  const days = formatDays(pattern.daysOfWeek)
+  const month = pattern.month ? MONTH_NAMES[pattern.month - 1] : undefined
+  const index = pattern.index ?? "first"
+
+  let summary: string
+  switch (pattern.type) {
+    case "daily":
+      summary = every("day")
+      break
+    case "weekly":
+      summary = days ? `${every("week")} on ${days}` : every("week")
+      break
+    case "absoluteMonthly":
+      summary = `${every("month")} on day ${pattern.dayOfMonth}`
+      break
+    case "relativeMonthly":
+      summary = `${every("month")} on the ${index} ${days}`
+      break
+    case "absoluteYearly":
+      summary = `${every("year")} on ${month} ${pattern.dayOfMonth}`
+      break
+    case "relativeYearly":
+      summary = `${every("year")} on the ${index} ${days} of ${month}`
+      break
+    default:
+      summary = `Repeats (${pattern.type})`
+  }
+
+  if (range?.type === "endDate" && range.endDate) {
+    summary += `, until ${range.endDate}`
+  } else if (range?.type === "numbered" && range.numberOfOccurrences) {
+    summary += `, ${range.numberOfOccurrences} times`
+  }
+
+  return summary
+}
+
+function formatDays(days?: DayOfWeek[]): string {
+  if (!days || days.length === 0) return ""
+  const names = days.map((day) => day.charAt(0).toUpperCase() + day.slice(1))
+  if (names.length === 1) return names[0]
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+}
@@ -45,7 +45,7 @@ async function setup() {
     console.log("1. Go to https://portal.azure.com")
     console.log("2. Navigate to 'App registrations' and create a new registration")
     console.log("3. Set redirect URI to: http://localhost:3000/callback")
-    console.log("4. Add these API permissions: Tasks.Read, Tasks.ReadWrite, User.Read")
+    console.log("4. Add these API permissions: Tasks.Read, Tasks.ReadWrite, User.Read, MailboxSettings.Read")
     console.log("5. Create a client secret\n")
 
     const clientId = await question("Enter your CLIENT_ID: ")
@@ -0,0 +1,138 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { SyncCache } from "./sync-cache.js"
+
+interface List {
+  id: string
+  displayName: string
+  isShared?: boolean
+}
+
+interface Task {
+  id: string
+  title: string
+  status?: string
+}
+
+describe("SyncCache", () => {
+  let configDir: string
+  let cache: SyncCache<List, Task>
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), "sync-cache-"))
+    cache = new SyncCache<List, Task>(configDir)
+  })
+
+  afterEach(() => {
+    rmSync(configDir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  it("adds lists from a delta and counts them", () => {
+    const counts = cache.applyListChanges(
+      [
+        { id: "work", displayName: "Work" },
+        { id: "home", displayName: "Home" },
+      ],
+      "lists-delta-1",
+    )
+
+    expect(counts).toEqual({ changed: 2, removed: 0 })
+    expect(cache.getLists().map((list) => list.displayName)).toEqual(["Work", "Home"])
+    expect(cache.listsDeltaLink).toBe("lists-delta-1")
+  })
+
+  it("merges partial delta items into the entities they change", () => {
+    cache.applyListChanges([{ id: "work", displayName: "Work", isShared: false }], "lists-delta-1")
+    cache.applyTaskChanges("work", [{ id: "task-1", title: "Write report", status: "notStarted" }], "tasks-delta-1")
+
+    cache.applyListChanges([{ id: "work", isShared: true }], "lists-delta-2")
+    cache.applyTaskChanges("work", [{ id: "task-1", status: "completed" }], "tasks-delta-2")
+
+    expect(cache.getList("work")).toEqual({ id: "work", displayName: "Work", isShared: true })
+    expect(cache.getTasks("work")).toEqual([{ id: "task-1", title: "Write report", status: "completed" }])
+    expect(cache.getTasksDeltaLink("work")).toBe("tasks-delta-2")
+  })
+
+  it("removes deleted items without storing the @removed marker", () => {
+    cache.applyTaskChanges(
+      "work",
+      [
+        { id: "task-1", title: "Write report" },
+        { id: "task-2", title: "Send invoice" },
+      ],
+      "tasks-delta-1",
+    )
+
+    const counts = cache.applyTaskChanges(
+      "work",
+      [
+        { id: "task-1", "@removed": { reason: "deleted" } },
+        { id: "task-unknown", "@removed": { reason: "deleted" } },
+      ],
+      "tasks-delta-2",
+    )
+
+    expect(counts).toEqual({ changed: 0, removed: 1 })
+    expect(cache.getTasks("work")).toEqual([{ id: "task-2", title: "Send invoice" }])
+  })
+
+  it("drops a removed list's tasks with it", () => {
+    cache.applyListChanges(
+      [
+        { id: "work", displayName: "Work" },
+        { id: "home", displayName: "Home" },
+      ],
+      "lists-delta-1",
+    )
+    cache.applyTaskChanges("work", [{ id: "task-1", title: "Write report" }], "tasks-delta-1")
+    cache.applyTaskChanges("home", [{ id: "task-2", title: "Water plants" }], "tasks-delta-1")
+
+    const counts = cache.applyListChanges([{ id: "work", "@removed": { reason: "deleted" } }], "lists-delta-2")
+
+    expect(counts).toEqual({ changed: 0, removed: 1 })
+    expect(cache.getLists().map((list) => list.id)).toEqual(["home"])
+    expect(cache.getTasks("work")).toBeUndefined()
+    expect(cache.getTasksDeltaLink("work")).toBeUndefined()
+    expect(cache.getTasks("home")).toHaveLength(1)
+  })
+
+  it("reports a list's tasks as unknown until they have been synced", () => {
+    expect(cache.getTasks("work")).toBeUndefined()
+    cache.applyTaskChanges("work", [], "tasks-delta-1")
+    expect(cache.getTasks("work")).toEqual([])
+
+    cache.resetTasks("work")
+    expect(cache.getTasks("work")).toBeUndefined()
+  })
+
+  it("keeps the snapshot across instances once saved", () => {
+    cache.applyListChanges([{ id: "work", displayName: "Work" }], "lists-delta-1")
+    cache.applyTaskChanges("work", [{ id: "task-1", title: "Write report" }], "tasks-delta-1")
+    cache.markSynced()
+    cache.save()
+
+    const reloaded = new SyncCache<List, Task>(configDir)
+    expect(reloaded.getLists()).toEqual([{ id: "work", displayName: "Work" }])
+    expect(reloaded.getTasks("work")).toEqual([{ id: "task-1", title: "Write report" }])
+    expect(reloaded.lastSyncedAt).toBeInstanceOf(Date)
+  })
+
+  it("starts fresh from an unreadable cache file", () => {
+    writeFileSync(cache.filePath, "{ not json", "utf8")
+    vi.spyOn(console, "error").mockImplementation(() => {})
+
+    expect(new SyncCache<List, Task>(configDir).getLists()).toEqual([])
+  })
+
+  it("stays invalidated until the next complete sync", () => {
+    expect(cache.isInvalidated).toBe(false)
+    cache.invalidate()
+    expect(cache.isInvalidated).toBe(true)
+    cache.markSynced()
+    expect(cache.isInvalidated).toBe(false)
+  })
+})
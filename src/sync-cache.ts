@@ -0,0 +1,169 @@
+// src/sync-cache.ts
+import { existsSync, readFileSync, writeFileSync } from "fs"
+import { join } from "path"
+
+// An entity as returned by a Graph delta query; deleted entities carry "@removed"
+export interface DeltaItem {
+  id: string
+  "@removed"?: { reason: string }
+  [key: string]: unknown
+}
+
+interface ListTasksSnapshot<TTask> {
+  deltaLink?: string
+  syncedAt?: string
+  tasks: Record<string, TTask>
+}
+
+interface SyncSnapshot<TList, TTask> {
+  version: 1
+  listsDeltaLink?: string
+  lastSyncedAt?: string
+  lists: Record<string, TList>
+  tasks: Record<string, ListTasksSnapshot<TTask>>
+}
+
+export interface ChangeCounts {
+  changed: number
+  removed: number
+}
+
+// Local JSON snapshot of task lists and tasks, kept current with Graph delta tokens
+export class SyncCache<TList extends { id: string }, TTask extends { id: string }> {
+  private cacheFilePath: string
+  private snapshot: SyncSnapshot<TList, TTask> | null = null
+  // Set when this process changed lists or tasks after the last sync, so the snapshot no longer matches Graph
+  private invalidated = false
+
+  constructor(configDir: string) {
+    this.cacheFilePath = join(configDir, "sync-cache.json")
+  }
+
+  private load(): SyncSnapshot<TList, TTask> {
+    if (this.snapshot) return this.snapshot
+
+    if (existsSync(this.cacheFilePath)) {
+      try {
+        const data = JSON.parse(readFileSync(this.cacheFilePath, "utf8"))
+        if (data?.version === 1) {
+          this.snapshot = data
+          return data
+        }
+      } catch (error) {
+        console.error("Error reading sync cache, starting fresh:", error)
+      }
+    }
+
+    this.snapshot = { version: 1, lists: {}, tasks: {} }
+    return this.snapshot
+  }
+
+  save(): void {
+    writeFileSync(this.cacheFilePath, JSON.stringify(this.load()), "utf8")
+  }
+
+  clear(): void {
+    this.snapshot = { version: 1, lists: {}, tasks: {} }
+    this.invalidated = false
+    this.save()
+  }
+
+  invalidate(): void {
+    this.invalidated = true
+  }
+
+  // True from an invalidate() until the next complete sync
+  get isInvalidated(): boolean {
+    return this.invalidated
+  }
+
+  get filePath(): string {
+    return this.cacheFilePath
+  }
+
+  get lastSyncedAt(): Date | undefined {
+    const value = this.load().lastSyncedAt
+    return value ? new Date(value) : undefined
+  }
+
+  // Called once every list has been synced, which also catches up with any invalidation
+  markSynced(): void {
+    this.load().lastSyncedAt = new Date().toISOString()
+    this.invalidated = false
+  }
+
+  get listsDeltaLink(): string | undefined {
+    return this.load().listsDeltaLink
+  }
+
+  getLists(): TList[] {
+    return Object.values(this.load().lists)
+  }
+
+  getList(listId: string): TList | undefined {
+    return this.load().lists[listId]
+  }
+
+  // Undefined when the list's tasks have never been synced
+  getTasks(listId: string): TTask[] | undefined {
+    const entry = this.load().tasks[listId]
+    return entry?.syncedAt ? Object.values(entry.tasks) : undefined
+  }
+
+  getTasksDeltaLink(listId: string): string | undefined {
+    return this.load().tasks[listId]?.deltaLink
+  }
+
+  // Forget a list's delta token so its next sync starts over
+  resetTasks(listId: string): void {
+    delete this.load().tasks[listId]
+  }
+
+  resetLists(): void {
+    const snapshot = this.load()
+    snapshot.listsDeltaLink = undefined
+    snapshot.lists = {}
+  }
+
+  applyListChanges(items: DeltaItem[], deltaLink: string): ChangeCounts {
+    const snapshot = this.load()
+    const counts = applyDelta(snapshot.lists, items)
+
+    // Tasks of removed lists go with them
+    for (const item of items) {
+      if (item["@removed"]) delete snapshot.tasks[item.id]
+    }
+
+    snapshot.listsDeltaLink = deltaLink
+    return counts
+  }
+
+  applyTaskChanges(listId: string, items: DeltaItem[], deltaLink: string): ChangeCounts {
+    const snapshot = this.load()
+    const entry = snapshot.tasks[listId] ?? (snapshot.tasks[listId] = { tasks: {} })
+    const counts = applyDelta(entry.tasks, items)
+
+    entry.deltaLink = deltaLink
+    entry.syncedAt = new Date().toISOString()
+    return counts
+  }
+}
+
+// Delta responses only carry what changed, so merge into the existing entity
+function applyDelta<T extends { id: string }>(target: Record<string, T>, items: DeltaItem[]): ChangeCounts {
+  const counts: ChangeCounts = { changed: 0, removed: 0 }
+
+  for (const item of items) {
+    if (item["@removed"]) {
+      if (target[item.id]) counts.removed++
+      delete target[item.id]
+      continue
+    }
+
+    const { "@removed": _removed, ...fields } = item
+    target[item.id] = { ...target[item.id], ...fields } as T
+    counts.changed++
+  }
+
+  return counts
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { MAX_BATCH_SIZE } from "./graph-batch.js"
+import { GraphError } from "./graph-error.js"
+import { copyDetailBatches, moveTask, recreateTask, type TaskCopyClient, type TaskDetails } from "./task-copy.js"
+
+interface Task extends TaskDetails {
+  id: string
+}
+
+const checklist = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ displayName: `Step ${i + 1}`, isChecked: i === 0 }))
+
+const graphError = (status: number) => new GraphError({ status, method: "DELETE", url: "/me/todo/lists/x/tasks/y" })
+
+// A client whose calls succeed unless a test overrides them
+function fakeClient(overrides: Partial<TaskCopyClient<Task>> = {}) {
+  return {
+    createTask: vi.fn(async (_listId: string, source: Task) => ({ ...source, id: "copy-id" })),
+    copyTask: vi.fn(async (): Promise<Task> => ({ id: "copy-id", title: "Write report" })),
+    deleteTask: vi.fn(async () => {}),
+    batch: vi.fn(async (requests: unknown[]) => requests.map(() => ({ ok: true }))),
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("copyDetailBatches", () => {
+  it("chains checklist items so Graph adds them in order", () => {
+    const [batch] = copyDetailBatches("/copy", { title: "Task", checklistItems: checklist(3) })
+
+    expect(batch.map((r) => [r.id, r.dependsOn])).toEqual([
+      ["checklist-0", undefined],
+      ["checklist-1", ["checklist-0"]],
+      ["checklist-2", ["checklist-1"]],
+    ])
+    expect(batch[0]).toMatchObject({
+      method: "POST",
+      url: "/copy/checklistItems",
+      body: { displayName: "Step 1", isChecked: true },
+    })
+  })
+
+  it("continues long checklists in the next call", () => {
+    const batches = copyDetailBatches("/copy", { title: "Task", checklistItems: checklist(MAX_BATCH_SIZE + 2) })
+
+    expect(batches.map((batch) => batch.length)).toEqual([MAX_BATCH_SIZE, 2])
+    expect(batches[1][0].id).toBe(`checklist-${MAX_BATCH_SIZE}`)
+    expect(batches[1][0].dependsOn).toBeUndefined()
+    expect(batches[1][1].dependsOn).toEqual([`checklist-${MAX_BATCH_SIZE}`])
+  })
+
+  it("sends linked resources with the first call", () => {
+    const linkedResources = [{ webUrl: "https://example.com/1", applicationName: "Example" }]
+
+    expect(copyDetailBatches("/copy", { title: "Task", linkedResources })).toEqual([
+      [
+        {
+          id: "linked-0",
+          method: "POST",
+          url: "/copy/linkedResources",
+          body: {
+            webUrl: "https://example.com/1",
+            applicationName: "Example",
+            displayName: undefined,
+            externalId: undefined,
+          },
+        },
+      ],
+    ])
+    expect(
+      copyDetailBatches("/copy", { title: "Task", checklistItems: checklist(1), linkedResources })[0],
+    ).toHaveLength(2)
+  })
+
+  it("needs no calls for a task without details", () => {
+    expect(copyDetailBatches("/copy", { title: "Task" })).toEqual([])
+  })
+})
+
+describe("recreateTask", () => {
+  it("creates the task and then its details", async () => {
+    const client = fakeClient()
+    const source = { id: "source-id", title: "Write report", checklistItems: checklist(2) }
+
+    expect((await recreateTask(client, "target", source)).id).toBe("copy-id")
+    expect(client.createTask).toHaveBeenCalledWith("target", source)
+    expect(client.batch).toHaveBeenCalledTimes(1)
+    expect(client.deleteTask).not.toHaveBeenCalled()
+  })
+
+  it("deletes the new task again when a checklist item fails", async () => {
+    const failure = graphError(400)
+    const client = fakeClient({ batch: vi.fn(async () => [{ ok: true }, { ok: false, error: failure }]) })
+
+    await expect(
+      recreateTask(client, "target", { id: "source-id", title: "Write report", checklistItems: checklist(2) }),
+    ).rejects.toBe(failure)
+    expect(client.deleteTask).toHaveBeenCalledWith("target", "copy-id")
+  })
+
+  it("reports the original failure when the rollback fails too", async () => {
+    const client = fakeClient({
+      batch: vi.fn(async () => [{ ok: false }]),
+      deleteTask: vi.fn(async () => Promise.reject(graphError(500))),
+    })
+
+    await expect(
+      recreateTask(client, "target", { id: "source-id", title: "Write report", checklistItems: checklist(1) }),
+    ).rejects.toThrow("Failed to copy 1 checklist item(s) or linked resource(s)")
+  })
+})
+
+describe("moveTask", () => {
+  it("deletes the original once the copy exists", async () => {
+    const client = fakeClient()
+
+    expect((await moveTask(client, "source", "task-id", "target")).id).toBe("copy-id")
+    expect(client.copyTask).toHaveBeenCalledWith("source", "task-id", "target")
+    expect(client.deleteTask).toHaveBeenCalledTimes(1)
+    expect(client.deleteTask).toHaveBeenCalledWith("source", "task-id")
+  })
+
+  it("removes the copy again when the original cannot be deleted", async () => {
+    const failure = graphError(403)
+    const client = fakeClient({
+      deleteTask: vi.fn(async (listId: string) => (listId === "source" ? Promise.reject(failure) : undefined)),
+    })
+
+    await expect(moveTask(client, "source", "task-id", "target")).rejects.toBe(failure)
+    expect(client.deleteTask).toHaveBeenLastCalledWith("target", "copy-id")
+  })
+
+  it("keeps the copy when the original is already gone", async () => {
+    const client = fakeClient({ deleteTask: vi.fn(async () => Promise.reject(graphError(404))) })
+
+    expect((await moveTask(client, "source", "task-id", "target")).id).toBe("copy-id")
+    expect(client.deleteTask).toHaveBeenCalledTimes(1)
+  })
+})
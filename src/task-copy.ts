@@ -0,0 +1,110 @@
+// src/task-copy.ts
+import { type BatchRequest, MAX_BATCH_SIZE } from "./graph-batch.js"
+import { GraphError } from "./graph-error.js"
+
+// The parts of a task that are copied alongside it
+export interface TaskDetails {
+  title: string
+  checklistItems?: { displayName: string; isChecked: boolean }[]
+  linkedResources?: { webUrl?: string; applicationName?: string; displayName?: string; externalId?: string }[]
+}
+
+// The Graph calls copying and moving a task makes
+export interface TaskCopyClient<TTask extends { id: string }> {
+  // Create a task in the list with the writable properties of the source task
+  createTask(listId: string, source: TTask): Promise<TTask>
+  // Copy a task with everything attached to it, verified, or throw and leave nothing behind
+  copyTask(sourceListId: string, taskId: string, targetListId: string): Promise<TTask>
+  deleteTask(listId: string, taskId: string): Promise<void>
+  batch(requests: BatchRequest[]): Promise<{ ok: boolean; error?: Error }[]>
+}
+
+// The $batch calls that add a task's checklist items and linked resources to its copy, to be sent one after another.
+// Graph runs the requests of one call in any order, so each checklist item depends on the one before it. A chain
+// has to fit in one call, so longer checklists continue in the next one.
+export function copyDetailBatches(copyUrl: string, source: TaskDetails): BatchRequest[][] {
+  const checklistRequests: BatchRequest[] = (source.checklistItems || []).map((item, index) => ({
+    id: `checklist-${index}`,
+    method: "POST",
+    url: `${copyUrl}/checklistItems`,
+    body: { displayName: item.displayName, isChecked: item.isChecked },
+    ...(index % MAX_BATCH_SIZE > 0 && { dependsOn: [`checklist-${index - 1}`] }),
+  }))
+  const linkedRequests: BatchRequest[] = (source.linkedResources || []).map((resource, index) => ({
+    id: `linked-${index}`,
+    method: "POST",
+    url: `${copyUrl}/linkedResources`,
+    body: {
+      webUrl: resource.webUrl,
+      applicationName: resource.applicationName,
+      displayName: resource.displayName,
+      externalId: resource.externalId,
+    },
+  }))
+
+  const batches: BatchRequest[][] = []
+  for (let start = 0; start < checklistRequests.length; start += MAX_BATCH_SIZE) {
+    batches.push(checklistRequests.slice(start, start + MAX_BATCH_SIZE))
+  }
+  // Linked resources have no order, so they share the first call
+  if (linkedRequests.length > 0) {
+    if (batches.length === 0) batches.push([])
+    batches[0].push(...linkedRequests)
+  }
+  return batches
+}
+
+// Create a task in the given list from a task object, with its checklist items (keeping their checked state and
+// order) and linked resources. If any of them fails the new task is deleted again.
+export async function recreateTask<TTask extends { id: string } & TaskDetails>(
+  client: TaskCopyClient<TTask>,
+  targetListId: string,
+  source: TTask,
+): Promise<TTask> {
+  const copy = await client.createTask(targetListId, source)
+  const copyUrl = `/me/todo/lists/${targetListId}/tasks/${copy.id}`
+
+  try {
+    for (const batch of copyDetailBatches(copyUrl, source)) {
+      const failed = (await client.batch(batch)).filter((r) => !r.ok)
+      if (failed.length > 0) {
+        throw failed[0].error ?? new Error(`Failed to copy ${failed.length} checklist item(s) or linked resource(s)`)
+      }
+    }
+
+    return copy
+  } catch (error) {
+    console.error(`Recreating task "${source.title}" failed, rolling back ${copy.id}`)
+    await client
+      .deleteTask(targetListId, copy.id)
+      .catch((rollbackError) => console.error("Rollback of recreated task failed:", rollbackError))
+    throw error
+  }
+}
+
+// Move a task by copying it to the target list and deleting the original once the copy is verified.
+// If the original cannot be deleted the copy is removed again, so exactly one version of the task remains.
+// An original that is already gone (404) counts as deleted: the copy is then the only version left.
+export async function moveTask<TTask extends { id: string }>(
+  client: TaskCopyClient<TTask>,
+  sourceListId: string,
+  taskId: string,
+  targetListId: string,
+): Promise<TTask> {
+  const copy = await client.copyTask(sourceListId, taskId, targetListId)
+
+  try {
+    await client.deleteTask(sourceListId, taskId)
+  } catch (error) {
+    if (error instanceof GraphError && error.isNotFound) {
+      console.error(`Original task ${taskId} was already deleted, keeping the copy ${copy.id}`)
+      return copy
+    }
+    await client
+      .deleteTask(targetListId, copy.id)
+      .catch((rollbackError) => console.error("Rollback of moved task failed:", rollbackError))
+    throw error
+  }
+
+  return copy
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  addDays,
+  formatGraphDateTime,
+  formatInstant,
+  instantToGraphDateTime,
+  isExplicitDate,
+  isValidIanaTimeZone,
+  parseGraphDateTime,
+  todayInTimeZone,
+  toGraphDateTime,
+  toIanaTimeZone,
+  toLocalDate,
+  type UserTimeZone,
+  UTC_TIME_ZONE,
+} from "./time-zones.js"
+
+const BERLIN: UserTimeZone = { iana: "Europe/Berlin", graphName: "W. Europe Standard Time", source: "mailbox" }
+const TOKYO: UserTimeZone = { iana: "Asia/Tokyo", graphName: "Asia/Tokyo", source: "config" }
+
+describe("toIanaTimeZone", () => {
+  it("maps Windows zone names to IANA", () => {
+    expect(toIanaTimeZone("W. Europe Standard Time")).toBe("Europe/Berlin")
+    expect(toIanaTimeZone("Pacific Standard Time")).toBe("America/Los_Angeles")
+  })
+
+  it("passes IANA names through", () => {
+    expect(toIanaTimeZone("Asia/Tokyo")).toBe("Asia/Tokyo")
+    expect(toIanaTimeZone("America/Chicago")).toBe("America/Chicago")
+  })
+
+  it("returns undefined for unknown zones", () => {
+    expect(toIanaTimeZone("Mars Standard Time")).toBeUndefined()
+    expect(isValidIanaTimeZone("Mars/Olympus_Mons")).toBe(false)
+  })
+})
+
+describe("parseGraphDateTime", () => {
+  it("reads Graph's wall-clock times in their zone", () => {
+    expect(parseGraphDateTime({ dateTime: "2026-03-01T09:30:00.0000000", timeZone: "UTC" }).toISOString()).toBe(
+      "2026-03-01T09:30:00.000Z",
+    )
+    expect(
+      parseGraphDateTime({ dateTime: "2026-03-01T09:30:00", timeZone: "W. Europe Standard Time" }).toISOString(),
+    ).toBe("2026-03-01T08:30:00.000Z")
+  })
+
+  it("uses the offset in force on either side of a daylight-saving change", () => {
+    const newYork = (dateTime: string) => parseGraphDateTime({ dateTime, timeZone: "America/New_York" }).toISOString()
+    expect(newYork("2026-03-08T01:30:00")).toBe("2026-03-08T06:30:00.000Z")
+    expect(newYork("2026-03-08T03:30:00")).toBe("2026-03-08T07:30:00.000Z")
+  })
+
+  it("reads unknown zones as UTC", () => {
+    expect(parseGraphDateTime({ dateTime: "2026-03-01T09:30:00", timeZone: "Nowhere" }).toISOString()).toBe(
+      "2026-03-01T09:30:00.000Z",
+    )
+  })
+})
+
+describe("calendar dates", () => {
+  it("gives the date a Graph time falls on in the user's zone", () => {
+    expect(toLocalDate({ dateTime: "2026-03-01T23:30:00", timeZone: "UTC" }, BERLIN)).toBe("2026-03-02")
+    expect(toLocalDate({ dateTime: "2026-03-01T23:30:00", timeZone: "UTC" }, UTC_TIME_ZONE)).toBe("2026-03-01")
+  })
+
+  it("gives today's date in the user's zone", () => {
+    const now = new Date("2026-03-01T20:00:00Z")
+    expect(todayInTimeZone(TOKYO, now)).toBe("2026-03-02")
+    expect(todayInTimeZone(UTC_TIME_ZONE, now)).toBe("2026-03-01")
+  })
+
+  it("adds days across month and year ends", () => {
+    expect(addDays("2026-02-27", 2)).toBe("2026-03-01")
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28")
+    expect(addDays("2026-12-31", 1)).toBe("2027-01-01")
+  })
+})
+
+describe("formatting", () => {
+  it("shows Graph times in the user's zone", () => {
+    const value = { dateTime: "2026-03-01T08:30:00", timeZone: "UTC" }
+    expect(formatGraphDateTime(value, BERLIN)).toBe("2026-03-01 09:30 (Europe/Berlin)")
+    expect(formatGraphDateTime(value, BERLIN, { dateOnly: true })).toBe("2026-03-01 (Europe/Berlin)")
+  })
+
+  it("shows instants in the user's zone", () => {
+    expect(formatInstant(new Date("2026-07-01T12:00:00Z"), TOKYO)).toBe("2026-07-01 21:00 (Asia/Tokyo)")
+  })
+})
+
+describe("toGraphDateTime", () => {
+  it("writes instants as wall-clock time with the zone's Graph name", () => {
+    expect(instantToGraphDateTime(new Date("2026-07-01T12:00:00Z"), BERLIN)).toEqual({
+      dateTime: "2026-07-01T14:00:00",
+      timeZone: "W. Europe Standard Time",
+    })
+  })
+
+  it("takes dates and times without an offset as local to the user", () => {
+    expect(toGraphDateTime("2026-03-01", BERLIN)).toEqual({
+      dateTime: "2026-03-01T00:00:00",
+      timeZone: "W. Europe Standard Time",
+    })
+    expect(toGraphDateTime("2026-03-01T09:30", BERLIN).dateTime).toBe("2026-03-01T09:30:00")
+  })
+
+  it("converts timestamps with an offset", () => {
+    expect(toGraphDateTime("2026-03-01T09:30:00Z", BERLIN).dateTime).toBe("2026-03-01T10:30:00")
+    expect(toGraphDateTime("2026-03-01T09:30:00+09:00", BERLIN).dateTime).toBe("2026-03-01T01:30:00")
+  })
+
+  it("resolves phrases against the current time in the user's zone", () => {
+    // Late Saturday evening in UTC is already Sunday in Tokyo
+    const now = new Date("2026-02-28T20:00:00Z")
+    expect(toGraphDateTime("tomorrow", TOKYO, now).dateTime).toBe("2026-03-02T00:00:00")
+    expect(toGraphDateTime("tomorrow", UTC_TIME_ZONE, now).dateTime).toBe("2026-03-01T00:00:00")
+    expect(toGraphDateTime("in 2 hours", TOKYO, now).dateTime).toBe("2026-03-01T07:00:00")
+  })
+
+  it("rejects input it cannot read", () => {
+    expect(() => toGraphDateTime("someday", BERLIN)).toThrow('Could not read the date "someday"')
+  })
+
+  it("tells explicit dates from phrases", () => {
+    expect(isExplicitDate("2026-03-01")).toBe(true)
+    expect(isExplicitDate("2026-03-01T09:30:00Z")).toBe(true)
+    expect(isExplicitDate("tomorrow")).toBe(false)
+  })
+})
@@ -0,0 +1,327 @@
+// src/time-zones.ts
+import { parseNaturalDate } from "./natural-dates.js"
+
+// Graph's dateTimeTimeZone: a wall-clock time without offset, plus the zone it is in
+export interface DateTimeTimeZone {
+  dateTime: string
+  timeZone: string
+}
+
+// The zone dates are read and written in
+export interface UserTimeZone {
+  // IANA name, used for conversions
+  iana: string
+  // Name sent to Graph; the Windows name when it came from mailbox settings
+  graphName: string
+  source: "config" | "mailbox" | "default"
+}
+
+export const UTC_TIME_ZONE: UserTimeZone = { iana: "UTC", graphName: "UTC", source: "default" }
+
+// Windows time zone names (as used by Outlook mailbox settings) to IANA, from CLDR's windowsZones table
+const WINDOWS_TO_IANA: Record<string, string> = {
+  "Dateline Standard Time": "Etc/GMT+12",
+  "UTC-11": "Etc/GMT+11",
+  "Aleutian Standard Time": "America/Adak",
+  "Hawaiian Standard Time": "Pacific/Honolulu",
+  "Marquesas Standard Time": "Pacific/Marquesas",
+  "Alaskan Standard Time": "America/Anchorage",
+  "UTC-09": "Etc/GMT+9",
+  "Pacific Standard Time (Mexico)": "America/Tijuana",
+  "UTC-08": "Etc/GMT+8",
+  "Pacific Standard Time": "America/Los_Angeles",
+  "US Mountain Standard Time": "America/Phoenix",
+  "Mountain Standard Time (Mexico)": "America/Mazatlan",
+  "Mountain Standard Time": "America/Denver",
+  "Yukon Standard Time": "America/Whitehorse",
+  "Central America Standard Time": "America/Guatemala",
+  "Central Standard Time": "America/Chicago",
+  "Easter Island Standard Time": "Pacific/Easter",
+  "Central Standard Time (Mexico)": "America/Mexico_City",
+  "Canada Central Standard Time": "America/Regina",
+  "SA Pacific Standard Time": "America/Bogota",
+  "Eastern Standard Time (Mexico)": "America/Cancun",
+  "Eastern Standard Time": "America/New_York",
+  "Haiti Standard Time": "America/Port-au-Prince",
+  "Cuba Standard Time": "America/Havana",
+  "US Eastern Standard Time": "America/Indiana/Indianapolis",
+  "Turks And Caicos Standard Time": "America/Grand_Turk",
+  "Paraguay Standard Time": "America/Asuncion",
+  "Atlantic Standard Time": "America/Halifax",
+  "Venezuela Standard Time": "America/Caracas",
+  "Central Brazilian Standard Time": "America/Cuiaba",
+  "SA Western Standard Time": "America/La_Paz",
+  "Pacific SA Standard Time": "America/Santiago",
+  "Newfoundland Standard Time": "America/St_Johns",
+  "Tocantins Standard Time": "America/Araguaina",
+  "E. South America Standard Time": "America/Sao_Paulo",
+  "SA Eastern Standard Time": "America/Cayenne",
+  "Argentina Standard Time": "America/Buenos_Aires",
+  "Greenland Standard Time": "America/Godthab",
+  "Montevideo Standard Time": "America/Montevideo",
+  "Magallanes Standard Time": "America/Punta_Arenas",
+  "Saint Pierre Standard Time": "America/Miquelon",
+  "Bahia Standard Time": "America/Bahia",
+  "UTC-02": "Etc/GMT+2",
+  "Azores Standard Time": "Atlantic/Azores",
+  "Cape Verde Standard Time": "Atlantic/Cape_Verde",
+  UTC: "Etc/UTC",
+  "GMT Standard Time": "Europe/London",
+  "Greenwich Standard Time": "Atlantic/Reykjavik",
+  "Sao Tome Standard Time": "Africa/Sao_Tome",
+  "Morocco Standard Time": "Africa/Casablanca",
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Central Europe Standard Time": "Europe/Budapest",
+  "Romance Standard Time": "Europe/Paris",
+  "Central European Standard Time": "Europe/Warsaw",
+  "W. Central Africa Standard Time": "Africa/Lagos",
+  "Jordan Standard Time": "Asia/Amman",
+  "GTB Standard Time": "Europe/Bucharest",
+  "Middle East Standard Time": "Asia/Beirut",
+  "Egypt Standard Time": "Africa/Cairo",
+  "E. Europe Standard Time": "Europe/Chisinau",
+  "Syria Standard Time": "Asia/Damascus",
+  "West Bank Standard Time": "Asia/Hebron",
+  "South Africa Standard Time": "Africa/Johannesburg",
+  "FLE Standard Time": "Europe/Kiev",
+  "Israel Standard Time": "Asia/Jerusalem",
+  "South Sudan Standard Time": "Africa/Juba",
+  "Kaliningrad Standard Time": "Europe/Kaliningrad",
+  "Sudan Standard Time": "Africa/Khartoum",
+  "Libya Standard Time": "Africa/Tripoli",
+  "Namibia Standard Time": "Africa/Windhoek",
+  "Arabic Standard Time": "Asia/Baghdad",
+  "Turkey Standard Time": "Europe/Istanbul",
+  "Arab Standard Time": "Asia/Riyadh",
+  "Belarus Standard Time": "Europe/Minsk",
+  "Russian Standard Time": "Europe/Moscow",
+  "E. Africa Standard Time": "Africa/Nairobi",
+  "Volgograd Standard Time": "Europe/Volgograd",
+  "Iran Standard Time": "Asia/Tehran",
+  "Arabian Standard Time": "Asia/Dubai",
+  "Astrakhan Standard Time": "Europe/Astrakhan",
+  "Azerbaijan Standard Time": "Asia/Baku",
+  "Russia Time Zone 3": "Europe/Samara",
+  "Mauritius Standard Time": "Indian/Mauritius",
+  "Saratov Standard Time": "Europe/Saratov",
+  "Georgian Standard Time": "Asia/Tbilisi",
+  "Caucasus Standard Time": "Asia/Yerevan",
+  "Afghanistan Standard Time": "Asia/Kabul",
+  "West Asia Standard Time": "Asia/Tashkent",
+  "Ekaterinburg Standard Time": "Asia/Yekaterinburg",
+  "Pakistan Standard Time": "Asia/Karachi",
+  "Qyzylorda Standard Time": "Asia/Qyzylorda",
+  "India Standard Time": "Asia/Calcutta",
+  "Sri Lanka Standard Time": "Asia/Colombo",
+  "Nepal Standard Time": "Asia/Katmandu",
+  "Central Asia Standard Time": "Asia/Almaty",
+  "Bangladesh Standard Time": "Asia/Dhaka",
+  "Omsk Standard Time": "Asia/Omsk",
+  "Myanmar Standard Time": "Asia/Rangoon",
+  "SE Asia Standard Time": "Asia/Bangkok",
+  "Altai Standard Time": "Asia/Barnaul",
+  "W. Mongolia Standard Time": "Asia/Hovd",
+  "North Asia Standard Time": "Asia/Krasnoyarsk",
+  "N. Central Asia Standard Time": "Asia/Novosibirsk",
+  "Tomsk Standard Time": "Asia/Tomsk",
+  "China Standard Time": "Asia/Shanghai",
+  "North Asia East Standard Time": "Asia/Irkutsk",
+  "Singapore Standard Time": "Asia/Singapore",
+  "W. Australia Standard Time": "Australia/Perth",
+  "Taipei Standard Time": "Asia/Taipei",
+  "Ulaanbaatar Standard Time": "Asia/Ulaanbaatar",
+  "Aus Central W. Standard Time": "Australia/Eucla",
+  "Transbaikal Standard Time": "Asia/Chita",
+  "Tokyo Standard Time": "Asia/Tokyo",
+  "North Korea Standard Time": "Asia/Pyongyang",
+  "Korea Standard Time": "Asia/Seoul",
+  "Yakutsk Standard Time": "Asia/Yakutsk",
+  "Cen. Australia Standard Time": "Australia/Adelaide",
+  "AUS Central Standard Time": "Australia/Darwin",
+  "E. Australia Standard Time": "Australia/Brisbane",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+  "West Pacific Standard Time": "Pacific/Port_Moresby",
+  "Tasmania Standard Time": "Australia/Hobart",
+  "Vladivostok Standard Time": "Asia/Vladivostok",
+  "Lord Howe Standard Time": "Australia/Lord_Howe",
+  "Bougainville Standard Time": "Pacific/Bougainville",
+  "Russia Time Zone 10": "Asia/Srednekolymsk",
+  "Magadan Standard Time": "Asia/Magadan",
+  "Norfolk Standard Time": "Pacific/Norfolk",
+  "Sakhalin Standard Time": "Asia/Sakhalin",
+  "Central Pacific Standard Time": "Pacific/Guadalcanal",
+  "Russia Time Zone 11": "Asia/Kamchatka",
+  "New Zealand Standard Time": "Pacific/Auckland",
+  "UTC+12": "Etc/GMT-12",
+  "Fiji Standard Time": "Pacific/Fiji",
+  "Chatham Islands Standard Time": "Pacific/Chatham",
+  "UTC+13": "Etc/GMT-13",
+  "Tonga Standard Time": "Pacific/Tongatapu",
+  "Samoa Standard Time": "Pacific/Apia",
+  "Line Islands Standard Time": "Pacific/Kiritimati",
+}
+
+const WALL_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/
+const OFFSET_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i
+
+export function isValidIanaTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// IANA name for a Windows or IANA zone name, or undefined when it is not known
+export function toIanaTimeZone(zone: string): string | undefined {
+  if (WINDOWS_TO_IANA[zone]) return WINDOWS_TO_IANA[zone]
+  return isValidIanaTimeZone(zone) ? zone : undefined
+}
+
+// A calendar date and clock time with no zone attached
+export interface WallTime {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+function parseWallTime(value: string): WallTime | undefined {
+  const match = value.trim().match(WALL_TIME_PATTERN)
+  if (!match) return undefined
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match
+  return {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+  }
+}
+
+// The wall-clock time an instant shows in a zone
+function getWallTime(instant: Date, iana: string): WallTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: iana,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant)
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  }
+}
+
+function wallTimeAsUtcMs(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)
+}
+
+// The instant a wall-clock time in a zone stands for. Offsets are looked up twice so times next to a
+// daylight-saving change land on the right side of it.
+function zonedTimeToUtc(wall: WallTime, iana: string): Date {
+  const guess = wallTimeAsUtcMs(wall)
+  const offsetAt = (ms: number) => wallTimeAsUtcMs(getWallTime(new Date(ms), iana)) - Math.floor(ms / 1000) * 1000
+
+  const firstOffset = offsetAt(guess)
+  const secondOffset = offsetAt(guess - firstOffset)
+  return new Date(guess - secondOffset)
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0")
+
+function formatWallTime(wall: WallTime, dateOnly = false): string {
+  const date = `${pad(wall.year, 4)}-${pad(wall.month)}-${pad(wall.day)}`
+  return dateOnly ? date : `${date} ${pad(wall.hour)}:${pad(wall.minute)}`
+}
+
+// The instant a Graph dateTimeTimeZone stands for; unknown zones are read as UTC
+export function parseGraphDateTime(value: DateTimeTimeZone): Date {
+  const wall = parseWallTime(value.dateTime)
+  if (!wall) return new Date(value.dateTime)
+  return zonedTimeToUtc(wall, toIanaTimeZone(value.timeZone) ?? "UTC")
+}
+
+// Calendar date (YYYY-MM-DD) of a Graph dateTimeTimeZone in the user's zone
+export function toLocalDate(value: DateTimeTimeZone, zone: UserTimeZone): string {
+  return formatWallTime(getWallTime(parseGraphDateTime(value), zone.iana), true)
+}
+
+// Today's calendar date (YYYY-MM-DD) in the user's zone
+export function todayInTimeZone(zone: UserTimeZone, now: Date = new Date()): string {
+  return formatWallTime(getWallTime(now, zone.iana), true)
+}
+
+// A calendar date (YYYY-MM-DD) moved by a number of days
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().substring(0, 10)
+}
+
+// A Graph dateTimeTimeZone for display in the user's zone, e.g. "2026-03-01 09:30 (Europe/Berlin)"
+export function formatGraphDateTime(
+  value: DateTimeTimeZone,
+  zone: UserTimeZone,
+  options: { dateOnly?: boolean } = {},
+): string {
+  return formatInstant(parseGraphDateTime(value), zone, options)
+}
+
+export function formatInstant(instant: Date, zone: UserTimeZone, options: { dateOnly?: boolean } = {}): string {
+  return `${formatWallTime(getWallTime(instant, zone.iana), options.dateOnly)} (${zone.iana})`
+}
+
+// Graph dateTimeTimeZone for an instant, written as wall-clock time in the user's zone
+export function instantToGraphDateTime(instant: Date, zone: UserTimeZone): DateTimeTimeZone {
+  return wallTimeToGraphDateTime(getWallTime(instant, zone.iana), zone)
+}
+
+function wallTimeToGraphDateTime(wall: WallTime, zone: UserTimeZone): DateTimeTimeZone {
+  return {
+    dateTime: `${formatWallTime(wall, true)}T${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}`,
+    timeZone: zone.graphName,
+  }
+}
+
+// Turn a tool argument into a Graph dateTimeTimeZone. Dates ("2026-03-01") and times without an offset
+// ("2026-03-01T09:30") are taken as local to the user, timestamps with Z or an offset are converted, and
+// phrases like "next friday 3pm" or "eom" are resolved against the current time in the user's zone.
+export function toGraphDateTime(input: string, zone: UserTimeZone, now: Date = new Date()): DateTimeTimeZone {
+  const wall = parseWallTime(input)
+  if (wall) return wallTimeToGraphDateTime(wall, zone)
+
+  if (OFFSET_TIMESTAMP_PATTERN.test(input.trim())) {
+    return instantToGraphDateTime(new Date(input.trim()), zone)
+  }
+
+  const natural = parseNaturalDate(input, getWallTime(now, zone.iana))
+  if (natural) {
+    return "offsetMs" in natural
+      ? instantToGraphDateTime(new Date(now.getTime() + natural.offsetMs), zone)
+      : wallTimeToGraphDateTime(natural.wall, zone)
+  }
+
+  throw new Error(
+    `Could not read the date "${input}". Use YYYY-MM-DD, a local time like YYYY-MM-DDTHH:mm, an ISO timestamp with an offset, ` +
+      `or a phrase like "tomorrow", "in 3 days", "next monday 9am" or "eom".`,
+  )
+}
+
+// True when the input is already an absolute date or time rather than a phrase
+export function isExplicitDate(input: string): boolean {
+  return !!parseWallTime(input) || OFFSET_TIMESTAMP_PATTERN.test(input.trim())
+}
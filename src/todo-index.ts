@@ -1,11 +1,79 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js"
+import {
+  McpServer,
+  PromptCallback,
+  ReadResourceCallback,
+  ReadResourceTemplateCallback,
+  ResourceMetadata,
+  ResourceTemplate,
+  ToolCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js"
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
+import type { AnySchema, ZodRawShapeCompat } from "@modelcontextprotocol/sdk/server/zod-compat.js"
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  ToolAnnotations,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js"
+import { AsyncLocalStorage } from "async_hooks"
+import { randomUUID } from "crypto"
 import dotenv from "dotenv"
-import { existsSync, readFileSync, writeFileSync } from "fs"
-import { join } from "path"
+import { existsSync, readFileSync, statSync, writeFileSync } from "fs"
+import { readFile, writeFile } from "fs/promises"
+import { basename, extname, join, resolve } from "path"
 import { z } from "zod"
 
+import { ChangePoller } from "./change-poller.js"
+import { askForConfirmation, Confirmation, notConfirmedResult } from "./confirmation.js"
+import { BatchRequest, chunkBatchRequests } from "./graph-batch.js"
+import { GraphError } from "./graph-error.js"
+import { httpOptionsFromArgs, HttpServerOptions, resolveInFileDirectory, startHttpServer } from "./http-server.js"
+import {
+  groupListsByType,
+  LIST_TYPE_ORDER,
+  loadOrganizationConfig,
+  organizationConfigSchema,
+  organizeLists,
+  sortCategories,
+} from "./list-organizer.js"
+import { resolveByName, resolveIdOrName, resolveList } from "./name-resolution.js"
+import { JournalRecord, OperationJournal } from "./operation-journal.js"
+import {
+  agendaItemSchema,
+  attachmentSchema,
+  changeCountsSchema,
+  checklistItemSchema,
+  dateTimeTimeZoneSchema,
+  linkedResourceSchema,
+  listTaskSchema,
+  nextCursorSchema,
+  selectedTaskSchema,
+  taskListSchema,
+  taskSchema,
+} from "./output-schemas.js"
+import { decodeCursor, encodeCursor } from "./paging-cursor.js"
+import { describeRecurrence, PatternedRecurrence, recurrenceSchema, toPatternedRecurrence } from "./recurrence.js"
+import { ChangeCounts, DeltaItem, SyncCache } from "./sync-cache.js"
+import { moveTask, recreateTask, TaskCopyClient } from "./task-copy.js"
+import {
+  addDays,
+  formatGraphDateTime,
+  formatInstant,
+  isExplicitDate,
+  isValidIanaTimeZone,
+  parseGraphDateTime,
+  todayInTimeZone,
+  toGraphDateTime,
+  toIanaTimeZone,
+  toLocalDate,
+  UserTimeZone,
+  UTC_TIME_ZONE,
+} from "./time-zones.js"
 import { tokenManager } from "./token-manager.js"
+import { allowsLocalFiles, isToolAllowed, parseToolMode, ToolMode, toolModeFromArgs } from "./tool-modes.js"
+import { TrashStore } from "./trash-store.js"
 
 // Load environment variables
 dotenv.config()
@@ -17,62 +85,177 @@ console.error("Current working directory:", process.cwd())
 const MS_GRAPH_BASE = "https://graph.microsoft.com/v1.0"
 const USER_AGENT = "microsoft-todo-mcp-server/1.0"
 
-// Create server instance
-const server = new McpServer({
-  name: "mstodo",
-  version: "1.0.0",
-})
+// Retry policy for throttled (429) and transient (502/503/504) Graph responses
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504])
+const MAX_RETRIES = readNumberEnv("MSTODO_MAX_RETRIES", 5)
+const RETRY_BUDGET_MS = readNumberEnv("MSTODO_RETRY_BUDGET_MS", 60_000)
+const RETRY_BASE_DELAY_MS = 1_000
+const RETRY_MAX_DELAY_MS = 30_000
+
+// Each MCP session (the stdio connection, or each HTTP client) has a server of its own, built by createServer.
+// Tool calls run inside their session, so code that needs to talk back to the client, or to tag the
+// journal, finds it through currentSession().
+interface McpSession {
+  server: McpServer
+  sessionId: string
+  // Whether the tools offer file arguments (savePath, filePath) in this session
+  localFiles: boolean
+  // Set when file arguments are limited to this directory
+  fileDirectory?: string
+}
+
+// Where file arguments may point: anywhere (stdio, where the client runs on this machine), only inside one
+// directory, or nowhere, in which case tools are offered without them
+type LocalFileAccess = { directory?: string } | false
+
+const sessionContext = new AsyncLocalStorage<McpSession>()
+
+function currentSession(): McpSession {
+  const session = sessionContext.getStore()
+  if (!session) throw new Error("Not running inside an MCP session")
+  return session
+}
+
+// Read a non-negative number from the environment, falling back when unset or invalid
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(header)
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+
+  return undefined
+}
+
+// Exponential backoff with full jitter
+function getBackoffDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt)
+  return Math.round(Math.random() * ceiling)
+}
+
+// fetch() that retries throttled and transient failures until MAX_RETRIES or RETRY_BUDGET_MS runs out.
+// POST is not idempotent, so it is only retried when Graph says the request was not processed (429/503).
+async function fetchWithRetry(url: string, options: RequestInit): Promise<Response> {
+  const method = options.method || "GET"
+  const idempotent = method !== "POST"
+  const startedAt = Date.now()
+  let retries = 0
+
+  while (true) {
+    let response: Response
+    try {
+      response = await fetch(url, options)
+    } catch (error) {
+      const delay = getBackoffDelay(retries)
+      if (!idempotent || retries >= MAX_RETRIES || Date.now() - startedAt + delay > RETRY_BUDGET_MS) {
+        console.error(`Network error after ${retries} retries, giving up`)
+        throw error
+      }
+
+      retries++
+      console.error(`Network error calling Graph (${error}), retry ${retries}/${MAX_RETRIES} in ${delay}ms`)
+      await sleep(delay)
+      continue
+    }
+
+    const retryable =
+      RETRYABLE_STATUSES.has(response.status) && (idempotent || response.status === 429 || response.status === 503)
+
+    if (!retryable) {
+      if (retries > 0) {
+        console.error(`Request completed with status ${response.status} after ${retries} retries`)
+      }
+      return response
+    }
+
+    const delay = parseRetryAfter(response.headers.get("Retry-After")) ?? getBackoffDelay(retries)
+    if (retries >= MAX_RETRIES || Date.now() - startedAt + delay > RETRY_BUDGET_MS) {
+      console.error(`Got ${response.status} from Graph, giving up after ${retries} retries`)
+      return response
+    }
+
+    // Release the connection before waiting
+    await response.body?.cancel()
+
+    retries++
+    console.error(`Got ${response.status} from Graph, retry ${retries}/${MAX_RETRIES} in ${delay}ms`)
+    await sleep(delay)
+  }
+}
+
+// Sends a Microsoft Graph API request, refreshing the token once on a 401.
+// Throws a GraphError when Graph answers with an error status.
+async function sendGraphRequest(url: string, token: string, method: string, body?: any): Promise<Response> {
+  // Sent to Graph and echoed back so failures can be correlated with Microsoft support
+  const clientRequestId = randomUUID()
 
-// Helper function for making Microsoft Graph API requests
-async function makeGraphRequest<T>(url: string, token: string, method = "GET", body?: any): Promise<T | null> {
   const headers = {
     "User-Agent": USER_AGENT,
     Accept: "application/json",
     Authorization: `Bearer ${token}`,
     "Content-Type": "application/json",
+    "client-request-id": clientRequestId,
+    "return-client-request-id": "true",
   }
 
-  try {
-    const options: RequestInit = {
-      method,
-      headers,
-    }
+  const options: RequestInit = {
+    method,
+    headers,
+  }
+
+  if (body && (method === "POST" || method === "PATCH")) {
+    options.body = JSON.stringify(body)
+  }
 
-    if (body && (method === "POST" || method === "PATCH")) {
-      options.body = JSON.stringify(body)
+  console.error(`Making request to: ${url}`)
+  console.error(
+    `Request options: ${JSON.stringify({
+      method,
+      headers: {
+        ...headers,
+        Authorization: "Bearer [REDACTED]",
+      },
+    })}`,
+  )
+
+  let response = await fetchWithRetry(url, options)
+
+  // If we get a 401, try to refresh the token and retry once
+  if (response.status === 401) {
+    console.error("Got 401, attempting token refresh...")
+    const newToken = await getAccessToken() // This will trigger refresh
+    if (newToken && newToken !== token) {
+      // Retry with new token
+      headers.Authorization = `Bearer ${newToken}`
+      response = await fetchWithRetry(url, { ...options, headers })
     }
+  }
 
-    console.error(`Making request to: ${url}`)
+  if (!response.ok) {
+    const error = await GraphError.fromResponse(
+      response,
+      method,
+      url,
+      clientRequestId,
+      parseRetryAfter(response.headers.get("Retry-After")),
+    )
     console.error(
-      `Request options: ${JSON.stringify({
-        method,
-        headers: {
-          ...headers,
-          Authorization: "Bearer [REDACTED]",
-        },
-      })}`,
+      `HTTP error! ${error.message} [request-id: ${error.requestId}, client-request-id: ${clientRequestId}]`,
     )
 
-    let response = await fetch(url, options)
-
-    // If we get a 401, try to refresh the token and retry once
-    if (response.status === 401) {
-      console.error("Got 401, attempting token refresh...")
-      const newToken = await getAccessToken() // This will trigger refresh
-      if (newToken && newToken !== token) {
-        // Retry with new token
-        headers.Authorization = `Bearer ${newToken}`
-        response = await fetch(url, { ...options, headers })
-      }
-    }
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error(`HTTP error! status: ${response.status}, body: ${errorText}`)
-
-      // Check for the specific MailboxNotEnabledForRESTAPI error
-      if (errorText.includes("MailboxNotEnabledForRESTAPI")) {
-        console.error(`
+    // Check for the specific MailboxNotEnabledForRESTAPI error
+    if (error.isMailboxNotEnabled) {
+      console.error(`
 =================================================================
 ERROR: MailboxNotEnabledForRESTAPI
 
@@ -85,25 +268,304 @@ Microsoft only allows To Do API access for Microsoft 365 business accounts.
 You can still use Microsoft To Do through the web interface or mobile apps,
 but API access is restricted for personal accounts.
 =================================================================
-        `)
+      `)
+    }
 
-        throw new Error(
-          "Microsoft To Do API is not available for personal Microsoft accounts. See console for details.",
-        )
+    throw error
+  }
+
+  return response
+}
+
+// Helper function for Microsoft Graph API requests that answer with a JSON body
+async function makeGraphRequest<T>(url: string, token: string, method = "GET", body?: unknown): Promise<T> {
+  const response = await sendGraphRequest(url, token, method, body)
+  const text = await response.text()
+  if (!text) {
+    throw new Error(`Graph returned an empty response to ${method} ${url}`)
+  }
+
+  console.error(`Response received: ${text.substring(0, 200)}...`)
+  return JSON.parse(text) as T
+}
+
+// For requests that answer 204 No Content, such as DELETE
+async function makeGraphRequestNoContent(url: string, token: string, method = "DELETE"): Promise<void> {
+  const response = await sendGraphRequest(url, token, method)
+  await response.body?.cancel()
+}
+
+// MCP result for a failed tool call. Graph errors carry an actionable explanation.
+function errorResult(action: string, error: unknown) {
+  const message =
+    error instanceof GraphError ? error.describe() : error instanceof Error ? error.message : String(error)
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Error ${action}: ${message}`,
+      },
+    ],
+    isError: true,
+  }
+}
+
+// Upper bound on @odata.nextLink pages a single tool call will follow (override with MSTODO_MAX_PAGES, at least 1)
+const DEFAULT_MAX_PAGES = Math.max(1, Math.floor(readNumberEnv("MSTODO_MAX_PAGES", 50)))
+
+// Shape of a Graph collection response
+interface GraphCollection<T> {
+  value: T[]
+  "@odata.nextLink"?: string
+  "@odata.count"?: number
+}
+
+interface PagedResult<T> {
+  items: T[]
+  pages: number
+  count?: number
+  // Opaque cursor for the first page that was not read, if Graph has more results
+  nextCursor?: string
+}
+
+interface PagingOptions {
+  maxPages?: number
+  cursor?: string
+}
+
+// Read a Graph collection, following @odata.nextLink until it runs out or maxPages is reached
+async function makePagedGraphRequest<T>(
+  url: string,
+  token: string,
+  options: PagingOptions = {},
+): Promise<PagedResult<T>> {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES
+  let nextUrl: string | undefined = options.cursor ? decodeCursor(options.cursor, MS_GRAPH_BASE) : url
+
+  const items: T[] = []
+  let pages = 0
+  let count: number | undefined
+
+  while (nextUrl && pages < maxPages) {
+    const page: GraphCollection<T> = await makeGraphRequest<GraphCollection<T>>(nextUrl, token)
+
+    items.push(...(page.value || []))
+    if (count === undefined && page["@odata.count"] !== undefined) {
+      count = page["@odata.count"]
+    }
+
+    pages++
+    nextUrl = page["@odata.nextLink"]
+  }
+
+  if (nextUrl) {
+    console.error(`Stopped paging after ${pages} page(s); more results are available`)
+  }
+
+  return {
+    items,
+    pages,
+    count,
+    nextCursor: nextUrl ? encodeCursor(nextUrl) : undefined,
+  }
+}
+
+// Footer telling the model how to fetch the next page of results
+function formatCursorHint(nextCursor?: string): string {
+  if (!nextCursor) return ""
+  return `\n\nMore results are available. Call again with cursor: "${nextCursor}" to continue.`
+}
+
+// Note for tools that must read a whole collection but stopped at the page limit
+function formatPagingLimitNote(result: PagedResult<unknown>): string {
+  if (!result.nextCursor) return ""
+  return `\n⚠️ Stopped after reading ${result.pages} page(s); more items remain. Run again or raise maxPages to process the rest.\n`
+}
+
+// Confirmation argument shared by the destructive tools
+const confirmParam = {
+  confirm: z
+    .boolean()
+    .optional()
+    .describe(
+      "Confirms the operation for clients that cannot show a confirmation prompt. Only set this after the user has agreed.",
+    ),
+}
+
+// Ask the user of the current session before a destructive operation
+async function confirmDestructiveAction(question: string, confirm: boolean | undefined): Promise<Confirmation> {
+  return askForConfirmation(currentSession().server.server, question, confirm)
+}
+
+// Paging arguments shared by the list-reading tools
+const pagingParams = {
+  maxPages: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(`Maximum number of result pages to follow in this call (default: ${DEFAULT_MAX_PAGES})`),
+  cursor: z
+    .string()
+    .optional()
+    .describe("Continuation cursor returned by a previous call, to read the next page of results"),
+}
+
+interface BatchResponseItem {
+  id: string
+  status: number
+  headers?: Record<string, string>
+  body?: any
+}
+
+interface BatchResult<T = any> {
+  id: string
+  status: number
+  ok: boolean
+  body?: T
+  error?: GraphError
+}
+
+function toBatchUrl(url: string): string {
+  return url.startsWith(MS_GRAPH_BASE) ? url.substring(MS_GRAPH_BASE.length) : url
+}
+
+// Send requests through Graph's /$batch endpoint, 20 at a time. Items that were throttled or failed
+// transiently are resent (with any dependents that failed because of them) until the retry budget
+// runs out. Returns one result per request, in the order given.
+async function makeGraphBatchRequest<T = any>(requests: BatchRequest[], token: string): Promise<BatchResult<T>[]> {
+  const byId = new Map(requests.map((r) => [r.id, r]))
+  const results = new Map<string, BatchResult<T>>()
+  const startedAt = Date.now()
+  let pending = requests
+  let retries = 0
+
+  while (pending.length > 0) {
+    const retryIds = new Set<string>()
+    const failedDependencyIds: string[] = []
+    let retryAfterMs: number | undefined
+
+    for (const chunk of chunkBatchRequests(pending)) {
+      const chunkIds = new Set(chunk.map((r) => r.id))
+
+      const response = await makeGraphRequest<{ responses: BatchResponseItem[] }>(
+        `${MS_GRAPH_BASE}/$batch`,
+        token,
+        "POST",
+        {
+          requests: chunk.map((request) => {
+            // Dependencies that already succeeded in an earlier round are no longer part of this call
+            const dependsOn = (request.dependsOn || []).filter((id) => chunkIds.has(id))
+            return {
+              id: request.id,
+              method: request.method,
+              url: toBatchUrl(request.url),
+              ...(request.body !== undefined && {
+                body: request.body,
+                headers: { "Content-Type": "application/json" },
+              }),
+              ...(dependsOn.length > 0 && { dependsOn }),
+            }
+          }),
+        },
+      )
+
+      for (const item of response.responses || []) {
+        const request = byId.get(item.id)
+        if (!request) continue
+
+        if (item.status >= 200 && item.status < 300) {
+          results.set(item.id, { id: item.id, status: item.status, ok: true, body: item.body })
+          continue
+        }
+
+        const itemRetryAfter = parseRetryAfter(item.headers?.["Retry-After"] ?? item.headers?.["retry-after"] ?? null)
+        const error = new GraphError({
+          status: item.status,
+          method: request.method,
+          url: toBatchUrl(request.url),
+          code: item.body?.error?.code,
+          graphMessage: item.body?.error?.message,
+          requestId: item.body?.error?.innerError?.["request-id"],
+          clientRequestId: item.body?.error?.innerError?.["client-request-id"],
+          retryAfterMs: itemRetryAfter,
+        })
+        results.set(item.id, { id: item.id, status: item.status, ok: false, error })
+
+        if (
+          RETRYABLE_STATUSES.has(item.status) &&
+          (request.method !== "POST" || item.status === 429 || item.status === 503)
+        ) {
+          retryIds.add(item.id)
+          if (itemRetryAfter !== undefined) retryAfterMs = Math.max(retryAfterMs ?? 0, itemRetryAfter)
+        } else if (item.status === 424) {
+          failedDependencyIds.push(item.id)
+        }
+      }
+    }
+
+    // A request that failed only because its dependency was throttled gets another chance with it
+    let added = true
+    while (added) {
+      added = false
+      for (const id of failedDependencyIds) {
+        if (!retryIds.has(id) && (byId.get(id)?.dependsOn || []).some((dep) => retryIds.has(dep))) {
+          retryIds.add(id)
+          added = true
+        }
       }
+    }
 
-      throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`)
+    if (retryIds.size === 0) break
+
+    const delay = retryAfterMs ?? getBackoffDelay(retries)
+    if (retries >= MAX_RETRIES || Date.now() - startedAt + delay > RETRY_BUDGET_MS) {
+      console.error(`Batch: giving up on ${retryIds.size} item(s) after ${retries} retries`)
+      break
     }
 
-    const data = await response.json()
-    console.error(`Response received: ${JSON.stringify(data).substring(0, 200)}...`)
-    return data as T
-  } catch (error) {
-    console.error("Error making Graph API request:", error)
-    return null
+    retries++
+    console.error(`Batch: retrying ${retryIds.size} failed item(s), retry ${retries}/${MAX_RETRIES} in ${delay}ms`)
+    await sleep(delay)
+    pending = requests.filter((r) => retryIds.has(r.id))
+  }
+
+  return requests.map(
+    (request) =>
+      results.get(request.id) ?? {
+        id: request.id,
+        status: 0,
+        ok: false,
+        error: new GraphError({
+          status: 0,
+          method: request.method,
+          url: toBatchUrl(request.url),
+          graphMessage: "No response for this item in the batch",
+        }),
+      },
+  )
+}
+
+// Run fn over items with at most `limit` calls in flight, keeping results in input order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
   }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
 }
 
+// Lists are read in parallel by cross-list tools, but gently to stay clear of throttling
+const LIST_FANOUT_CONCURRENCY = 4
+
 // Authentication helper using delegated flow with token manager
 async function getAccessToken(): Promise<string | null> {
   try {
@@ -130,6 +592,10 @@ interface ServerConfig {
   accessToken?: string
   refreshToken?: string
   tokenFilePath?: string
+  // Which tools to offer; defaults to MSTODO_TOOL_MODE, then "full"
+  toolMode?: ToolMode
+  // Serve Streamable HTTP and SSE instead of stdio; defaults to MSTODO_TRANSPORT and the MSTODO_HTTP_* settings
+  http?: HttpServerOptions
 }
 
 // Function to check if the account is a personal Microsoft account
@@ -187,11 +653,119 @@ but API access is restricted for personal accounts.
   }
 }
 
+// Tools, resources and prompts are collected here when the module loads, and added to every server
+// createServer builds. Tools are kept apart so createServer can leave out the ones the tool mode excludes.
+interface ToolDefinition {
+  name: string
+  annotations?: ToolAnnotations
+  localFiles?: LocalFileArgs
+  register: (server: McpServer, session: McpSession, withLocalFiles: boolean) => void
+}
+
+// Arguments that read or write files on the machine the server runs on, with the description and annotations
+// that apply while they are offered. Servers without local file access register the tool without them.
+interface LocalFileArgs {
+  args: string[]
+  description: string
+  annotations?: ToolAnnotations
+}
+
+// The annotations a tool is offered under, which decide whether the tool mode allows it
+function toolAnnotations(tool: ToolDefinition, withLocalFiles: boolean): ToolAnnotations | undefined {
+  return withLocalFiles && tool.localFiles?.annotations ? tool.localFiles.annotations : tool.annotations
+}
+
+const toolDefinitions: ToolDefinition[] = []
+const serverSetups: ((server: McpServer) => void)[] = []
+
+function registerTool<
+  OutputArgs extends ZodRawShapeCompat | AnySchema,
+  InputArgs extends undefined | ZodRawShapeCompat | AnySchema = undefined,
+>(
+  name: string,
+  config: {
+    description?: string
+    annotations?: ToolAnnotations
+    inputSchema?: InputArgs
+    outputSchema?: OutputArgs
+    localFiles?: LocalFileArgs
+  },
+  callback: ToolCallback<InputArgs>,
+): void {
+  const { localFiles, ...toolConfig } = config
+  toolDefinitions.push({
+    name,
+    annotations: config.annotations,
+    localFiles,
+    register: (server, session, withLocalFiles) => {
+      // Run the tool inside its session, wherever the SDK invokes it from
+      const inSession = (...args: unknown[]) =>
+        sessionContext.run(session, () => (callback as (...args: unknown[]) => unknown)(...args))
+
+      let offeredConfig = toolConfig
+      if (localFiles && withLocalFiles) {
+        offeredConfig = {
+          ...toolConfig,
+          description: localFiles.description,
+          annotations: localFiles.annotations ?? toolConfig.annotations,
+        }
+      } else if (localFiles) {
+        // Arguments missing from the schema are stripped from calls, so the callback never sees them
+        const inputSchema = Object.entries(toolConfig.inputSchema ?? {}).filter(
+          ([arg]) => !localFiles.args.includes(arg),
+        )
+        offeredConfig = { ...toolConfig, inputSchema: Object.fromEntries(inputSchema) as InputArgs }
+      }
+      server.registerTool(name, offeredConfig, inSession as ToolCallback<InputArgs>)
+    },
+  })
+}
+
+function registerResource(name: string, uri: string, config: ResourceMetadata, read: ReadResourceCallback): void
+function registerResource(
+  name: string,
+  template: ResourceTemplate,
+  config: ResourceMetadata,
+  read: ReadResourceTemplateCallback,
+): void
+function registerResource(
+  name: string,
+  uriOrTemplate: string | ResourceTemplate,
+  config: ResourceMetadata,
+  read: ReadResourceCallback | ReadResourceTemplateCallback,
+): void {
+  serverSetups.push((server) => {
+    if (typeof uriOrTemplate === "string") {
+      server.registerResource(name, uriOrTemplate, config, read as ReadResourceCallback)
+    } else {
+      server.registerResource(name, uriOrTemplate, config, read as ReadResourceTemplateCallback)
+    }
+  })
+}
+
+function registerPrompt<Args extends ZodRawShapeCompat>(
+  name: string,
+  config: { title?: string; description?: string; argsSchema?: Args },
+  callback: PromptCallback<Args>,
+): void {
+  serverSetups.push((server) => server.registerPrompt(name, config, callback))
+}
+
 // Server tool to check authentication status
-server.tool(
+registerTool(
   "auth-status",
-  "Check if you're authenticated with Microsoft Graph API. Shows current token status and expiration time, and indicates if the token needs to be refreshed.",
-  {},
+  {
+    description:
+      "Check if you're authenticated with Microsoft Graph API. Shows current token status and expiration time, and indicates if the token needs to be refreshed.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {},
+    outputSchema: {
+      authenticated: z.boolean(),
+      expired: z.boolean().optional(),
+      expiresAt: z.string().optional().describe("When the access token expires (ISO 8601)"),
+      personalAccount: z.boolean().optional(),
+    },
+  },
   async () => {
     const tokens = await tokenManager.getTokens()
 
@@ -203,6 +777,7 @@ server.tool(
             text: "Not authenticated. Please run 'npx microsoft-todo-mcp-server setup' to authenticate with Microsoft.",
           },
         ],
+        structuredContent: { authenticated: false },
       }
     }
 
@@ -229,6 +804,12 @@ server.tool(
             text: `Authentication expired at ${expiryTime}. Will attempt to refresh when you call any API.${accountMessage}`,
           },
         ],
+        structuredContent: {
+          authenticated: true,
+          expired: true,
+          expiresAt: new Date(tokens.expiresAt).toISOString(),
+          personalAccount: isPersonal,
+        },
       }
     } else {
       return {
@@ -238,6 +819,12 @@ server.tool(
             text: `Authenticated. Token expires at ${expiryTime}.${accountMessage}`,
           },
         ],
+        structuredContent: {
+          authenticated: true,
+          expired: false,
+          expiresAt: new Date(tokens.expiresAt).toISOString(),
+          personalAccount: isPersonal,
+        },
       }
     }
   },
@@ -268,11 +855,23 @@ interface Task {
     dateTime: string
     timeZone: string
   }
+  startDateTime?: {
+    dateTime: string
+    timeZone: string
+  }
+  isReminderOn?: boolean
+  recurrence?: PatternedRecurrence
   body?: {
     content: string
     contentType: string
   }
   categories?: string[]
+  hasAttachments?: boolean
+  createdDateTime?: string
+  lastModifiedDateTime?: string
+  // Present when requested with $expand
+  checklistItems?: ChecklistItem[]
+  linkedResources?: LinkedResource[]
 }
 
 interface ChecklistItem {
@@ -282,353 +881,2683 @@ interface ChecklistItem {
   createdDateTime?: string
 }
 
-// Register tools
-server.tool(
-  "get-task-lists",
-  "Get all Microsoft Todo task lists (the top-level containers that organize your tasks). Shows list names, IDs, and indicates default or shared lists.",
-  {},
-  async () => {
-    try {
-      const token = await getAccessToken()
-      if (!token) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: "Failed to authenticate with Microsoft API",
-            },
-          ],
-        }
-      }
+interface LinkedResource {
+  id: string
+  webUrl?: string
+  applicationName?: string
+  displayName?: string
+  externalId?: string
+}
 
-      const response = await makeGraphRequest<{ value: TaskList[] }>(`${MS_GRAPH_BASE}/me/todo/lists`, token)
+// Fields of a linked resource, shared by create-linked-resource and the create-task option
+const linkedResourceFields = {
+  webUrl: z.string().url().optional().describe("Link back to the item, e.g. https://github.com/owner/repo/issues/42"),
+  applicationName: z.string().describe("Name of the app the item lives in, e.g. 'GitHub'"),
+  displayName: z.string().describe("Title shown for the link, e.g. 'Issue #42: Fix login'"),
+  externalId: z.string().optional().describe("ID of the item in the source app, e.g. '42'"),
+}
 
-      if (!response) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: "Failed to retrieve task lists",
-            },
-          ],
-        }
-      }
+// One linked resource as a block of tool output
+function formatLinkedResource(resource: LinkedResource): string {
+  let info = `🔗 ${resource.displayName || resource.webUrl || "Untitled link"} (ID: ${resource.id})`
+  if (resource.applicationName) info += `\nApplication: ${resource.applicationName}`
+  if (resource.webUrl) info += `\nURL: ${resource.webUrl}`
+  if (resource.externalId) info += `\nExternal ID: ${resource.externalId}`
+  return info
+}
 
-      const lists = response.value || []
-      if (lists.length === 0) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: "No task lists found.",
-            },
-          ],
-        }
-      }
+// How long a looked-up time zone is reused, so a changed mailbox setting is picked up without a restart
+const TIME_ZONE_CACHE_MS = readNumberEnv("MSTODO_TIME_ZONE_CACHE_SECONDS", 3600) * 1000
 
-      const formattedLists = lists.map((list) => {
-        // Add well-known list name if applicable
-        let wellKnownInfo = ""
-        if (list.wellknownListName && list.wellknownListName !== "none") {
-          if (list.wellknownListName === "defaultList") {
-            wellKnownInfo = " (Default Tasks List)"
-          } else if (list.wellknownListName === "flaggedEmails") {
-            wellKnownInfo = " (Flagged Emails)"
-          }
-        }
+let userTimeZone: { zone: UserTimeZone; expiresAt: number } | undefined
 
-        // Add sharing info if applicable
-        let sharingInfo = ""
-        if (list.isShared) {
-          sharingInfo = list.isOwner ? " (Shared by you)" : " (Shared with you)"
-        }
+// Zone task dates are read and written in: MSTODO_TIME_ZONE (IANA), else the mailbox setting, else UTC
+async function getUserTimeZone(token: string): Promise<UserTimeZone> {
+  if (userTimeZone && Date.now() < userTimeZone.expiresAt) return userTimeZone.zone
 
-        return `ID: ${list.id}\nName: ${list.displayName}${wellKnownInfo}${sharingInfo}\n---`
-      })
+  const zone = await lookUpUserTimeZone(token)
+  userTimeZone = { zone, expiresAt: Date.now() + TIME_ZONE_CACHE_MS }
+  return zone
+}
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Your task lists:\n\n${formattedLists.join("\n")}`,
-          },
-        ],
-      }
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error fetching task lists: ${error}`,
-          },
-        ],
-      }
+async function lookUpUserTimeZone(token: string): Promise<UserTimeZone> {
+  const configured = process.env.MSTODO_TIME_ZONE
+  if (configured) {
+    if (isValidIanaTimeZone(configured)) {
+      return { iana: configured, graphName: configured, source: "config" }
     }
-  },
-)
-
-// Enhanced organized view of task lists
-server.tool(
-  "get-task-lists-organized",
-  "Get all task lists organized into logical folders/categories based on naming patterns, emoji prefixes, and sharing status. Provides a hierarchical view similar to folder organization.",
-  {
-    includeIds: z.boolean().optional().describe("Include list IDs in output (default: false)"),
-    groupBy: z
-      .enum(["category", "shared", "type"])
-      .optional()
-      .describe("Grouping strategy - 'category' (default), 'shared', or 'type'"),
-  },
-  async ({ includeIds, groupBy }) => {
-    try {
-      const token = await getAccessToken()
-      if (!token) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: "Failed to authenticate with Microsoft API",
-            },
-          ],
-        }
-      }
-
-      const response = await makeGraphRequest<{ value: TaskList[] }>(`${MS_GRAPH_BASE}/me/todo/lists`, token)
+    console.error(`MSTODO_TIME_ZONE "${configured}" is not an IANA time zone, ignoring it`)
+  }
 
-      if (!response) {
-        return {
+  try {
+    // Needs MailboxSettings.Read; tokens from before that scope was added fall back to UTC
+    const setting = await makeGraphRequest<{ value?: string }>(`${MS_GRAPH_BASE}/me/mailboxSettings/timeZone`, token)
+    const iana = setting?.value ? toIanaTimeZone(setting.value) : undefined
+    if (setting?.value && iana) {
+      return { iana, graphName: setting.value, source: "mailbox" }
+    }
+    console.error(`Unknown mailbox time zone "${setting?.value}", using UTC`)
+  } catch (error) {
+    console.error("Could not read the mailbox time zone, using UTC:", error)
+  }
+
+  return UTC_TIME_ZONE
+}
+
+// Dates as resolved for a create or update reply, so phrases like "next friday" can be checked
+function formatResolvedDates(
+  fields: {
+    label: string
+    input?: string
+    value?: { dateTime: string; timeZone: string } | null
+    dateOnly?: boolean
+  }[],
+  zone: UserTimeZone,
+): string {
+  return fields
+    .map(({ label, input, value, dateOnly }) => {
+      if (!input || !value) return ""
+      const source = isExplicitDate(input) ? "" : ` (from "${input}")`
+      return `\n${label}: ${formatGraphDateTime(value, zone, { dateOnly })}${source}`
+    })
+    .join("")
+}
+
+// Shown for empty date fields
+function formatOptionalDateTime(
+  value: { dateTime: string; timeZone: string } | undefined,
+  zone: UserTimeZone,
+  options: { dateOnly?: boolean } = {},
+): string {
+  return value ? formatGraphDateTime(value, zone, options) : "not set"
+}
+
+// Plain text of an HTML task body, for matching and previews
+function stripHtml(content: string): string {
+  return content
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+// Local snapshot of lists and tasks maintained by delta queries (see syncTodoData)
+const syncCache = new SyncCache<TaskList, Task>(tokenManager.configDir)
+
+// What a trash entry holds: the deleted item in full, as Graph returned it just before the delete
+type TrashContent =
+  | { kind: "list"; list: TaskList; tasks: Task[] }
+  | { kind: "task"; task: Task }
+  | { kind: "checklistItem"; taskId: string; taskTitle: string; checklistItem: ChecklistItem }
+  | { kind: "linkedResource"; taskId: string; taskTitle: string; linkedResource: LinkedResource }
+
+type TrashEntry = { id: string; deletedAt: string; listId: string; listName: string } & TrashContent
+
+// Deleted lists, tasks, checklist items and linked resources, kept until restored or emptied
+const trashStore = new TrashStore<TrashEntry>(tokenManager.configDir)
+
+// Put a copy in the trash, then delete. The copy is saved first so nothing is lost if the process dies in between;
+// if Graph refuses the delete, the copy is taken out again.
+async function deleteToTrash(
+  token: string,
+  url: string,
+  location: { listId: string; listName: string },
+  content: TrashContent,
+): Promise<TrashEntry> {
+  const entry: TrashEntry = { id: randomUUID(), deletedAt: new Date().toISOString(), ...location, ...content }
+  trashStore.add(entry)
+
+  try {
+    await makeGraphRequestNoContent(url, token)
+  } catch (error) {
+    trashStore.remove(entry.id)
+    throw error
+  }
+
+  return entry
+}
+
+const RESTORE_HINT = "It was moved to the trash and can be brought back with restore-from-trash."
+
+// How stale the snapshot may get before a useCache read triggers an incremental sync
+const CACHE_MAX_AGE_MS = readNumberEnv("MSTODO_CACHE_MAX_AGE_SECONDS", 300) * 1000
+
+interface SyncSummary {
+  lists: ChangeCounts
+  tasks: ChangeCounts
+  listCount: number
+  taskCount: number
+  resynced: string[]
+}
+
+// Read every page of a delta query and return the changes plus the deltaLink for the next round
+async function readDelta(url: string, token: string): Promise<{ items: DeltaItem[]; deltaLink: string }> {
+  const items: DeltaItem[] = []
+  let nextUrl: string | undefined = url
+
+  while (nextUrl) {
+    const page: GraphCollection<DeltaItem> & { "@odata.deltaLink"?: string } = await makeGraphRequest(nextUrl, token)
+    items.push(...(page.value || []))
+
+    if (page["@odata.deltaLink"]) {
+      return { items, deltaLink: page["@odata.deltaLink"] }
+    }
+    nextUrl = page["@odata.nextLink"]
+  }
+
+  throw new Error(`Delta query ended without a deltaLink: ${url}`)
+}
+
+// Graph answers 410 Gone when a delta token has expired and a full resync is needed
+function isDeltaTokenExpired(error: unknown): boolean {
+  return error instanceof GraphError && (error.status === 410 || error.code === "syncStateNotFound")
+}
+
+// Bring the local snapshot up to date using /lists/delta and /lists/{id}/tasks/delta.
+// Only changes since the last sync are transferred; expired delta tokens fall back to a full read.
+async function syncTodoData(token: string, options: { full?: boolean } = {}): Promise<SyncSummary> {
+  if (options.full) {
+    syncCache.clear()
+  }
+
+  const summary: SyncSummary = {
+    lists: { changed: 0, removed: 0 },
+    tasks: { changed: 0, removed: 0 },
+    listCount: 0,
+    taskCount: 0,
+    resynced: [],
+  }
+
+  let listDelta
+  try {
+    listDelta = await readDelta(syncCache.listsDeltaLink ?? `${MS_GRAPH_BASE}/me/todo/lists/delta`, token)
+  } catch (error) {
+    if (!isDeltaTokenExpired(error)) throw error
+    syncCache.resetLists()
+    summary.resynced.push("task lists")
+    listDelta = await readDelta(`${MS_GRAPH_BASE}/me/todo/lists/delta`, token)
+  }
+  summary.lists = syncCache.applyListChanges(listDelta.items, listDelta.deltaLink)
+
+  for (const list of syncCache.getLists()) {
+    const initialUrl = `${MS_GRAPH_BASE}/me/todo/lists/${list.id}/tasks/delta`
+
+    let taskDelta
+    try {
+      taskDelta = await readDelta(syncCache.getTasksDeltaLink(list.id) ?? initialUrl, token)
+    } catch (error) {
+      if (!isDeltaTokenExpired(error)) throw error
+      syncCache.resetTasks(list.id)
+      summary.resynced.push(list.displayName)
+      taskDelta = await readDelta(initialUrl, token)
+    }
+
+    const counts = syncCache.applyTaskChanges(list.id, taskDelta.items, taskDelta.deltaLink)
+    summary.tasks.changed += counts.changed
+    summary.tasks.removed += counts.removed
+  }
+
+  syncCache.markSynced()
+  syncCache.save()
+
+  summary.listCount = syncCache.getLists().length
+  summary.taskCount = syncCache.getLists().reduce((sum, list) => sum + (syncCache.getTasks(list.id)?.length ?? 0), 0)
+  return summary
+}
+
+// Make sure the snapshot is no older than CACHE_MAX_AGE_MS, includes the changes this server made since the last
+// sync, and (when given) has the list synced
+async function ensureFreshCache(token: string, listId?: string): Promise<void> {
+  const lastSyncedAt = syncCache.lastSyncedAt
+  const stale = !lastSyncedAt || Date.now() - lastSyncedAt.getTime() > CACHE_MAX_AGE_MS
+
+  if (stale || syncCache.isInvalidated || (listId && !syncCache.getTasks(listId))) {
+    await syncTodoData(token)
+  }
+}
+
+function formatCacheNote(): string {
+  const lastSyncedAt = syncCache.lastSyncedAt
+  return lastSyncedAt ? `\n\n(From local cache, last synced ${lastSyncedAt.toLocaleString()})` : ""
+}
+
+// Accept a list ID, display name, or wellknownListName alias such as "defaultList"
+async function resolveListId(token: string, ref: string): Promise<string> {
+  // The lists are fetched either way, and an ID is matched before any name
+  const lists = (await makePagedGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token)).items
+  return resolveList(lists, ref).id
+}
+
+// Accept a task ID or title within the given list
+async function resolveTaskId(token: string, listId: string, ref: string): Promise<string> {
+  const taskExists = async (id: string) => {
+    try {
+      await makeGraphRequest<Task>(`${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${id}?$select=id`, token)
+      return true
+    } catch (error) {
+      // Graph answers 400 rather than 404 when the reference is not a well-formed ID
+      if (error instanceof GraphError && (error.isNotFound || error.status === 400)) return false
+      throw error
+    }
+  }
+
+  return resolveIdOrName(ref, taskExists, async (name) => {
+    const tasks = (
+      await makePagedGraphRequest<Task>(`${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks?$select=id,title,status`, token)
+    ).items
+    return resolveByName(tasks, name, (task) => task.title, "task").id
+  })
+}
+
+interface TaskAttachment {
+  id: string
+  name: string
+  contentType?: string
+  size?: number
+  lastModifiedDateTime?: string
+}
+
+// Graph takes attachments up to 3 MB inline; larger files go through an upload session
+const INLINE_ATTACHMENT_LIMIT = 3 * 1024 * 1024
+// To Do attachments are capped at 25 MB
+const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024
+// download-attachment returns larger files only through savePath: as base64 they could exceed a client's message
+// size limit or fill the model's context
+const INLINE_DOWNLOAD_LIMIT = readNumberEnv("MSTODO_INLINE_DOWNLOAD_LIMIT_KB", 1024) * 1024
+// Upload session chunks must be a multiple of 320 KiB
+const UPLOAD_CHUNK_SIZE = 10 * 320 * 1024
+
+// Raw bytes of a Graph resource, such as an attachment's /$value
+async function downloadGraphContent(url: string, token: string): Promise<Buffer> {
+  const clientRequestId = randomUUID()
+  const headers = {
+    "User-Agent": USER_AGENT,
+    Authorization: `Bearer ${token}`,
+    "client-request-id": clientRequestId,
+    "return-client-request-id": "true",
+  }
+
+  console.error(`Downloading content from: ${url}`)
+  let response = await fetchWithRetry(url, { method: "GET", headers })
+
+  // If we get a 401, try to refresh the token and retry once
+  if (response.status === 401) {
+    const newToken = await getAccessToken()
+    if (newToken && newToken !== token) {
+      response = await fetchWithRetry(url, {
+        method: "GET",
+        headers: { ...headers, Authorization: `Bearer ${newToken}` },
+      })
+    }
+  }
+
+  if (!response.ok) {
+    throw await GraphError.fromResponse(
+      response,
+      "GET",
+      url,
+      clientRequestId,
+      parseRetryAfter(response.headers.get("Retry-After")),
+    )
+  }
+
+  return Buffer.from(await response.arrayBuffer())
+}
+
+// Attach a file to a task: inline when small, otherwise through createUploadSession in chunks.
+// Returns the attachment ID when Graph reports it.
+async function uploadTaskAttachment(
+  token: string,
+  listId: string,
+  taskId: string,
+  name: string,
+  content: Buffer,
+  contentType: string,
+): Promise<string | undefined> {
+  const attachmentsUrl = `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}/attachments`
+
+  if (content.length <= INLINE_ATTACHMENT_LIMIT) {
+    const attachment = await makeGraphRequest<TaskAttachment>(attachmentsUrl, token, "POST", {
+      "@odata.type": "#microsoft.graph.taskFileAttachment",
+      name,
+      contentType,
+      contentBytes: content.toString("base64"),
+    })
+    return attachment.id
+  }
+
+  const session = await makeGraphRequest<{ uploadUrl: string }>(
+    `${attachmentsUrl}/createUploadSession`,
+    token,
+    "POST",
+    { attachmentInfo: { attachmentType: "file", name, size: content.length } },
+  )
+
+  // The upload URL is pre-authenticated, so the chunks go without the bearer token
+  for (let start = 0; start < content.length; start += UPLOAD_CHUNK_SIZE) {
+    const chunk = content.subarray(start, Math.min(start + UPLOAD_CHUNK_SIZE, content.length))
+    const end = start + chunk.length - 1
+
+    const response = await fetchWithRetry(session.uploadUrl, {
+      method: "PUT",
+      headers: {
+        "User-Agent": USER_AGENT,
+        "Content-Type": "application/octet-stream",
+        "Content-Length": String(chunk.length),
+        "Content-Range": `bytes ${start}-${end}/${content.length}`,
+      },
+      body: new Uint8Array(chunk),
+    })
+
+    if (!response.ok) {
+      throw await GraphError.fromResponse(response, "PUT", session.uploadUrl)
+    }
+
+    // The last chunk answers 201 Created, with the new attachment in the Location header
+    if (end === content.length - 1) {
+      const location = response.headers.get("Location") || ""
+      return location.match(/attachments\('([^']+)'\)/)?.[1]
+    }
+
+    await response.body?.cancel()
+  }
+
+  return undefined
+}
+
+// Absolute path for a file argument, confined to the session's file directory when it has one
+function resolveLocalPath(path: string): string {
+  const directory = currentSession().fileDirectory
+  return directory ? resolveInFileDirectory(path, directory) : resolve(path)
+}
+
+// Content type for an uploaded file when the caller does not give one
+function guessContentType(fileName: string): string {
+  const types: Record<string, string> = {
+    ".pdf": "application/pdf",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".txt": "text/plain",
+    ".md": "text/markdown",
+    ".csv": "text/csv",
+    ".json": "application/json",
+    ".zip": "application/zip",
+    ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  }
+  return types[extname(fileName).toLowerCase()] || "application/octet-stream"
+}
+
+function formatFileSize(bytes?: number): string {
+  if (bytes === undefined) return "unknown size"
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// One attachment as a line of tool output
+function formatAttachment(attachment: TaskAttachment): string {
+  return `📎 ${attachment.name} (${formatFileSize(attachment.size)}, ${attachment.contentType || "unknown type"}) (ID: ${attachment.id})`
+}
+
+async function listTaskAttachments(token: string, listId: string, taskId: string): Promise<TaskAttachment[]> {
+  const response = await makeGraphRequest<{ value: TaskAttachment[] }>(
+    `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}/attachments`,
+    token,
+  )
+  return response.value || []
+}
+
+// Fetch a task together with its checklist items and linked resources
+async function getTaskWithDetails(token: string, listId: string, taskId: string): Promise<Task> {
+  return makeGraphRequest<Task>(
+    `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}?$expand=checklistItems,linkedResources`,
+    token,
+  )
+}
+
+// Writable task properties, for recreating a task somewhere else
+function toTaskCreateBody(task: Task): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    title: task.title,
+    status: task.status,
+    importance: task.importance,
+  }
+
+  if (task.body) body.body = task.body
+  if (task.categories && task.categories.length > 0) body.categories = task.categories
+  if (task.dueDateTime) body.dueDateTime = task.dueDateTime
+  if (task.startDateTime) body.startDateTime = task.startDateTime
+  if (task.reminderDateTime) body.reminderDateTime = task.reminderDateTime
+  if (task.isReminderOn !== undefined) body.isReminderOn = task.isReminderOn
+  if (task.completedDateTime && task.status === "completed") body.completedDateTime = task.completedDateTime
+  if (task.recurrence) body.recurrence = task.recurrence
+
+  return body
+}
+
+// Graph calls for the copy and move routines in task-copy.ts
+function taskCopyClient(token: string): TaskCopyClient<Task> {
+  return {
+    createTask: (listId, source) =>
+      makeGraphRequest<Task>(`${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks`, token, "POST", toTaskCreateBody(source)),
+    copyTask: (sourceListId, taskId, targetListId) => copyTask(token, sourceListId, taskId, targetListId),
+    deleteTask: (listId, taskId) =>
+      makeGraphRequestNoContent(`${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}`, token),
+    batch: (requests) => makeGraphBatchRequest(requests, token),
+  }
+}
+
+// Copy a task into another list with all of its checklist items (keeping their checked state),
+// linked resources and attachments, then read the copy back to verify it. If any step fails the copy is deleted
+// again, so the caller either gets a complete copy or an exception and no leftovers.
+async function copyTask(token: string, sourceListId: string, taskId: string, targetListId: string): Promise<Task> {
+  const source = await getTaskWithDetails(token, sourceListId, taskId)
+  const checklistItems = source.checklistItems || []
+  const linkedResources = source.linkedResources || []
+
+  const copy = await recreateTask(taskCopyClient(token), targetListId, source)
+  const copyUrl = `/me/todo/lists/${targetListId}/tasks/${copy.id}`
+
+  try {
+    // Attachments carry file content, so they are copied one at a time outside the batch
+    const attachments = source.hasAttachments ? await listTaskAttachments(token, sourceListId, taskId) : []
+    for (const attachment of attachments) {
+      const content = await downloadGraphContent(
+        `${MS_GRAPH_BASE}/me/todo/lists/${sourceListId}/tasks/${taskId}/attachments/${attachment.id}/$value`,
+        token,
+      )
+      await uploadTaskAttachment(
+        token,
+        targetListId,
+        copy.id,
+        attachment.name,
+        content,
+        attachment.contentType || guessContentType(attachment.name),
+      )
+    }
+
+    // Verify the copy before anyone deletes the original
+    const verified = await getTaskWithDetails(token, targetListId, copy.id)
+    const copiedChecked = (verified.checklistItems || []).filter((item) => item.isChecked).length
+    const sourceChecked = checklistItems.filter((item) => item.isChecked).length
+
+    if (
+      verified.title !== source.title ||
+      (verified.checklistItems || []).length !== checklistItems.length ||
+      copiedChecked !== sourceChecked ||
+      (verified.linkedResources || []).length !== linkedResources.length ||
+      (attachments.length > 0 &&
+        (await listTaskAttachments(token, targetListId, copy.id)).length !== attachments.length)
+    ) {
+      throw new Error(`Copy of "${source.title}" did not match the original after creation`)
+    }
+
+    return verified
+  } catch (error) {
+    console.error(`Copy of task ${taskId} failed, rolling back ${copy.id}`)
+    await makeGraphRequestNoContent(`${MS_GRAPH_BASE}${copyUrl}`, token).catch((rollbackError) =>
+      console.error("Rollback of copied task failed:", rollbackError),
+    )
+    throw error
+  }
+}
+
+// A list, task, checklist item, linked resource or attachment, by the IDs that locate it in Graph
+interface ItemRef {
+  kind: TrashContent["kind"] | "attachment"
+  listId: string
+  taskId?: string
+  // Checklist item, linked resource or attachment ID
+  itemId?: string
+}
+
+function itemUrl(ref: ItemRef): string {
+  const listUrl = `${MS_GRAPH_BASE}/me/todo/lists/${ref.listId}`
+  const taskUrl = `${listUrl}/tasks/${ref.taskId}`
+  switch (ref.kind) {
+    case "list":
+      return listUrl
+    case "task":
+      return taskUrl
+    case "checklistItem":
+      return `${taskUrl}/checklistItems/${ref.itemId}`
+    case "linkedResource":
+      return `${taskUrl}/linkedResources/${ref.itemId}`
+    case "attachment":
+      return `${taskUrl}/attachments/${ref.itemId}`
+  }
+}
+
+// Read an item in full, as the trash keeps it
+async function readTrashContent(token: string, ref: ItemRef): Promise<TrashContent> {
+  switch (ref.kind) {
+    case "list": {
+      // A list takes all of its tasks with it, so the trash copy needs every one of them
+      const [list, tasks] = await Promise.all([
+        makeGraphRequest<TaskList>(itemUrl(ref), token),
+        makePagedGraphRequest<Task>(`${itemUrl(ref)}/tasks?$expand=checklistItems,linkedResources`, token, {
+          maxPages: Number.POSITIVE_INFINITY,
+        }),
+      ])
+      return { kind: "list", list, tasks: tasks.items }
+    }
+    case "task":
+      return { kind: "task", task: await getTaskWithDetails(token, ref.listId, ref.taskId!) }
+    case "checklistItem":
+    case "linkedResource": {
+      const [task, item] = await Promise.all([
+        makeGraphRequest<Task>(`${itemUrl({ ...ref, kind: "task" })}?$select=id,title`, token),
+        makeGraphRequest<ChecklistItem & LinkedResource>(itemUrl(ref), token),
+      ])
+      return ref.kind === "checklistItem"
+        ? { kind: "checklistItem", taskId: task.id, taskTitle: task.title, checklistItem: item }
+        : { kind: "linkedResource", taskId: task.id, taskTitle: task.title, linkedResource: item }
+    }
+    case "attachment":
+      throw new Error("Attachments are not kept in the trash")
+  }
+}
+
+// The trash copy of an item and the name of its list, typed by the kind of item asked for
+async function snapshotForTrash<K extends TrashContent["kind"]>(
+  token: string,
+  ref: ItemRef & { kind: K },
+): Promise<{ listName: string; content: Extract<TrashContent, { kind: K }> }> {
+  const content = await readTrashContent(token, ref)
+  const listName =
+    content.kind === "list"
+      ? content.list.displayName
+      : (await makeGraphRequest<TaskList>(itemUrl({ kind: "list", listId: ref.listId }), token)).displayName
+  return { listName, content: content as Extract<TrashContent, { kind: K }> }
+}
+
+// Put an item and everything it holds in the trash, then delete it
+async function trashItem(token: string, ref: ItemRef & { kind: TrashContent["kind"] }): Promise<TrashEntry> {
+  const { listName, content } = await snapshotForTrash(token, ref)
+  return deleteToTrash(token, itemUrl(ref), { listId: ref.listId, listName }, content)
+}
+
+interface RestoredItem {
+  text: string
+  ref: ItemRef
+  // The recreated item as Graph returned it
+  item: TaskList | Task | ChecklistItem | LinkedResource
+  taskCount?: number
+}
+
+// Recreate a trash entry in Graph and take it out of the trash. Restored items get new IDs.
+async function restoreTrashEntry(token: string, entry: TrashEntry, targetListRef?: string): Promise<RestoredItem> {
+  // The original list or task may have been deleted since; Graph answers 404 then
+  const isGone = (error: unknown) => error instanceof GraphError && error.status === 404
+
+  let restored: RestoredItem
+
+  switch (entry.kind) {
+    case "list": {
+      const list = await makeGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token, "POST", {
+        displayName: entry.list.displayName,
+      })
+
+      // All or nothing: a half-restored list is removed again and the entry stays in the trash
+      try {
+        for (const task of entry.tasks) {
+          await recreateTask(taskCopyClient(token), list.id, task)
+        }
+      } catch (error) {
+        console.error(`Restoring list "${entry.list.displayName}" failed, rolling back ${list.id}`)
+        await makeGraphRequestNoContent(`${MS_GRAPH_BASE}/me/todo/lists/${list.id}`, token).catch((rollbackError) =>
+          console.error("Rollback of restored list failed:", rollbackError),
+        )
+        throw error
+      }
+
+      restored = {
+        text: `Restored list "${list.displayName}" with ${entry.tasks.length} task(s). New list ID: ${list.id}`,
+        ref: { kind: "list", listId: list.id },
+        item: list,
+        taskCount: entry.tasks.length,
+      }
+      break
+    }
+
+    case "task": {
+      const listId = targetListRef ? await resolveListId(token, targetListRef) : entry.listId
+      let task: Task
+      try {
+        task = await recreateTask(taskCopyClient(token), listId, entry.task)
+      } catch (error) {
+        if (!targetListRef && isGone(error)) {
+          throw new Error(
+            `The list "${entry.listName}" no longer exists. Pass targetListId to restore the task into another list.`,
+            { cause: error },
+          )
+        }
+        throw error
+      }
+
+      let text = `Restored task "${task.title}" to list ${targetListRef ? listId : `"${entry.listName}"`}. New task ID: ${task.id}`
+      if (entry.task.hasAttachments) text += "\nIts attachments were not kept and are not restored."
+      restored = { text, ref: { kind: "task", listId, taskId: task.id }, item: task }
+      break
+    }
+
+    case "checklistItem":
+    case "linkedResource": {
+      const taskUrl = itemUrl({ kind: "task", listId: entry.listId, taskId: entry.taskId })
+      let created: ChecklistItem | LinkedResource
+      try {
+        created =
+          entry.kind === "checklistItem"
+            ? await makeGraphRequest<ChecklistItem>(`${taskUrl}/checklistItems`, token, "POST", {
+                displayName: entry.checklistItem.displayName,
+                isChecked: entry.checklistItem.isChecked,
+              })
+            : await makeGraphRequest<LinkedResource>(`${taskUrl}/linkedResources`, token, "POST", {
+                webUrl: entry.linkedResource.webUrl,
+                applicationName: entry.linkedResource.applicationName,
+                displayName: entry.linkedResource.displayName,
+                externalId: entry.linkedResource.externalId,
+              })
+      } catch (error) {
+        if (isGone(error)) {
+          throw new Error(`The task "${entry.taskTitle}" in "${entry.listName}" no longer exists.`, { cause: error })
+        }
+        throw error
+      }
+
+      const what = entry.kind === "checklistItem" ? "checklist item" : "linked resource"
+      restored = {
+        text: `Restored ${what} "${describeTrashEntry(entry).name}" to task "${entry.taskTitle}". New ID: ${created.id}`,
+        ref: { kind: entry.kind, listId: entry.listId, taskId: entry.taskId, itemId: created.id },
+        item: created,
+      }
+      break
+    }
+  }
+
+  trashStore.remove(entry.id)
+  return restored
+}
+
+// One change an operation made, with what is needed to reverse it
+type JournalChange =
+  | { action: "create"; ref: ItemRef; after: object }
+  | { action: "update"; ref: ItemRef; before: Record<string, unknown>; after: Record<string, unknown> }
+  // Deleted items are kept in the trash; attachments are not, so their deletes cannot be reversed
+  | { action: "delete"; ref: ItemRef; trashEntryId?: string }
+  // A moved task gets a new ID in its new list; ref is where it is now
+  | { action: "move"; ref: ItemRef; fromListId: string; previousTaskId: string }
+
+interface JournalEntry extends JournalRecord {
+  tool: string
+  summary: string
+  changes: JournalChange[]
+}
+
+// Changes made through this server, so they can be listed with history and reversed with undo
+const journal = new OperationJournal<JournalEntry>(tokenManager.configDir)
+
+// The Graph change has already happened when this runs, so a journal that cannot be written is logged, not reported
+function recordOperation(
+  tool: string,
+  summary: string,
+  changes: JournalChange[],
+  undoes?: string,
+): JournalEntry | undefined {
+  if (changes.length === 0) return undefined
+
+  // Every change the server makes is recorded here, so cached reads catch up with it through the next delta sync
+  syncCache.invalidate()
+
+  const entry: JournalEntry = {
+    id: randomUUID(),
+    sessionId: currentSession().sessionId,
+    timestamp: new Date().toISOString(),
+    ...(undoes ? { undoes } : {}),
+    tool,
+    summary,
+    changes,
+  }
+  try {
+    journal.append(entry)
+    return entry
+  } catch (error) {
+    console.error("Failed to write the operation journal:", error)
+    return undefined
+  }
+}
+
+// The given fields of an item; fields Graph leaves out are recorded as null, which is also how a PATCH clears them
+function pickFields(item: object, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map((field) => [field, (item as Record<string, unknown>)[field] ?? null]))
+}
+
+// Compare Graph values regardless of property order
+function sameValue(a: unknown, b: unknown): boolean {
+  const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortKeys)
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value)
+          .sort(([x], [y]) => x.localeCompare(y))
+          .map(([key, nested]) => [key, sortKeys(nested)]),
+      )
+    }
+    return value
+  }
+  return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b))
+}
+
+// PATCH an item, reading the fields it changes first so the journal holds their values before and after
+async function patchWithJournal<T extends object>(
+  token: string,
+  ref: ItemRef,
+  body: Record<string, unknown>,
+): Promise<{ response: T; change: Extract<JournalChange, { action: "update" }> }> {
+  const url = itemUrl(ref)
+  const fields = Object.keys(body)
+  const current = await makeGraphRequest<T>(url, token)
+  const response = await makeGraphRequest<T>(url, token, "PATCH", body)
+  return {
+    response,
+    change: { action: "update", ref, before: pickFields(current, fields), after: pickFields(response, fields) },
+  }
+}
+
+// Reverse one change and return the change that reversal made, so an undo can itself be undone
+async function undoChange(
+  token: string,
+  change: JournalChange,
+  force: boolean,
+): Promise<{ text: string; inverse: JournalChange }> {
+  const { ref } = change
+
+  switch (change.action) {
+    case "create": {
+      if (ref.kind === "attachment") {
+        await makeGraphRequestNoContent(itemUrl(ref), token)
+        return { text: `Deleted attachment ${ref.itemId}`, inverse: { action: "delete", ref } }
+      }
+      // Whatever was added to the item since it was created goes to the trash with it
+      const entry = await trashItem(token, { ...ref, kind: ref.kind })
+      return {
+        text: `Moved ${entry.kind} "${describeTrashEntry(entry).name}" to the trash (entry ID: ${entry.id})`,
+        inverse: { action: "delete", ref, trashEntryId: entry.id },
+      }
+    }
+
+    case "update": {
+      const url = itemUrl(ref)
+      const fields = Object.keys(change.after)
+      const current = await makeGraphRequest<object>(url, token)
+      const currentValues = pickFields(current, fields)
+
+      // Someone changed the item again since; putting the old values back would silently drop that edit
+      const changedSince = fields.filter((field) => !sameValue(currentValues[field], change.after[field]))
+      if (changedSince.length > 0 && !force) {
+        throw new Error(
+          `The ${ref.kind} was changed again after this operation (${changedSince.join(", ")}). Pass force: true to put the earlier values back anyway.`,
+        )
+      }
+
+      const response = await makeGraphRequest<object>(url, token, "PATCH", change.before)
+      return {
+        text: `Put back ${fields.join(", ")} of ${ref.kind} ${ref.itemId ?? ref.taskId ?? ref.listId}`,
+        inverse: { action: "update", ref, before: currentValues, after: pickFields(response, fields) },
+      }
+    }
+
+    case "delete": {
+      if (!change.trashEntryId) {
+        throw new Error(`The deleted ${ref.kind} was not kept in the trash, so it cannot be restored`)
+      }
+      const entry = trashStore.getEntry(change.trashEntryId)
+      if (!entry) {
+        throw new Error(`Trash entry ${change.trashEntryId} was already restored or emptied from the trash`)
+      }
+      const restored = await restoreTrashEntry(token, entry)
+      return { text: restored.text, inverse: { action: "create", ref: restored.ref, after: restored.item } }
+    }
+
+    case "move": {
+      const task = await moveTask(taskCopyClient(token), ref.listId, ref.taskId!, change.fromListId)
+      return {
+        text: `Moved task "${task.title}" back to list ${change.fromListId}. New task ID: ${task.id}`,
+        inverse: {
+          action: "move",
+          ref: { kind: "task", listId: change.fromListId, taskId: task.id },
+          fromListId: ref.listId,
+          previousTaskId: ref.taskId!,
+        },
+      }
+    }
+  }
+}
+
+// Reverse an operation's changes, newest first. The undo is journaled as an entry of its own, also when it stops
+// partway, so the journal always shows what was actually changed.
+async function undoOperation(
+  token: string,
+  entry: JournalEntry,
+  force: boolean,
+): Promise<{ lines: string[]; undoEntry?: JournalEntry; error?: unknown }> {
+  const lines: string[] = []
+  const inverses: JournalChange[] = []
+  let error: unknown
+
+  for (const change of [...entry.changes].reverse()) {
+    try {
+      const undone = await undoChange(token, change, force)
+      lines.push(undone.text)
+      inverses.push(undone.inverse)
+    } catch (changeError) {
+      error = changeError
+      break
+    }
+  }
+
+  const undoEntry = recordOperation("undo", `Undo: ${entry.summary}`, inverses, entry.id)
+  return { lines, undoEntry, error }
+}
+
+// Register tools
+registerTool(
+  "get-task-lists",
+  {
+    description:
+      "Get all Microsoft Todo task lists (the top-level containers that organize your tasks). Shows list names, IDs, and indicates default or shared lists.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      ...pagingParams,
+      useCache: z
+        .boolean()
+        .optional()
+        .describe(
+          "Answer from the local sync cache instead of calling Graph (refreshed when older than a few minutes)",
+        ),
+    },
+    outputSchema: { lists: z.array(taskListSchema), nextCursor: nextCursorSchema },
+  },
+  async ({ maxPages, cursor, useCache }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
+
+      let response: PagedResult<TaskList>
+      if (useCache) {
+        await ensureFreshCache(token)
+        response = { items: syncCache.getLists(), pages: 0 }
+      } else {
+        response = await makePagedGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token, {
+          maxPages,
+          cursor,
+        })
+      }
+
+      const lists = response.items
+      if (lists.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No task lists found.",
+            },
+          ],
+          structuredContent: { lists: [] },
+        }
+      }
+
+      const formattedLists = lists.map((list) => {
+        // Add well-known list name if applicable
+        let wellKnownInfo = ""
+        if (list.wellknownListName && list.wellknownListName !== "none") {
+          if (list.wellknownListName === "defaultList") {
+            wellKnownInfo = " (Default Tasks List)"
+          } else if (list.wellknownListName === "flaggedEmails") {
+            wellKnownInfo = " (Flagged Emails)"
+          }
+        }
+
+        // Add sharing info if applicable
+        let sharingInfo = ""
+        if (list.isShared) {
+          sharingInfo = list.isOwner ? " (Shared by you)" : " (Shared with you)"
+        }
+
+        return `ID: ${list.id}\nName: ${list.displayName}${wellKnownInfo}${sharingInfo}\n---`
+      })
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Your task lists:\n\n${formattedLists.join("\n")}${formatCursorHint(response.nextCursor)}${useCache ? formatCacheNote() : ""}`,
+          },
+        ],
+        structuredContent: { lists, nextCursor: response.nextCursor },
+      }
+    } catch (error) {
+      return errorResult("fetching task lists", error)
+    }
+  },
+)
+
+// Enhanced organized view of task lists
+registerTool(
+  "get-task-lists-organized",
+  {
+    description:
+      "Get all task lists organized into logical folders/categories based on naming patterns, emoji prefixes, and sharing status. Provides a hierarchical view similar to folder organization. Category rules come from the user's organization-rules.json, or can be passed in the rules argument.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      includeIds: z.boolean().optional().describe("Include list IDs in output (default: false)"),
+      groupBy: z
+        .enum(["category", "shared", "type"])
+        .optional()
+        .describe(
+          "Grouping strategy - 'category' (default, by naming rules), 'shared' (shared vs personal), or 'type' (default list, flagged emails, personal, shared by you, shared with you)",
+        ),
+      rules: organizationConfigSchema
+        .optional()
+        .describe("Category rules to use for this call instead of the configured ones (groupBy 'category' only)"),
+      maxPages: pagingParams.maxPages,
+    },
+    outputSchema: {
+      groupBy: z.enum(["category", "shared", "type"]),
+      groups: z.array(z.object({ name: z.string(), lists: z.array(taskListSchema) })),
+    },
+  },
+  async ({ includeIds, groupBy, rules, maxPages }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
+
+      // The organized view needs every list, so it reads as many pages as maxPages allows
+      const response = await makePagedGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token, { maxPages })
+      // Running again would stop at the same page, so only a higher maxPages helps
+      const pagingNote = response.nextCursor
+        ? `\n⚠️ Stopped after reading ${response.pages} page(s); more lists exist and are not shown. Raise maxPages to include them.\n`
+        : ""
+
+      const lists = response.items
+      if (lists.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No task lists found.",
+            },
+          ],
+          structuredContent: { groupBy: groupBy ?? "category", groups: [] },
+        }
+      }
+
+      // Group by shared status
+      if (groupBy === "shared") {
+        const sharedLists = lists.filter((l) => l.isShared)
+        const personalLists = lists.filter((l) => !l.isShared)
+
+        let output = "📂 Microsoft To Do Lists - By Sharing Status\n"
+        output += "=".repeat(50) + "\n\n"
+
+        output += `👥 Shared Lists (${sharedLists.length})\n`
+        sharedLists.forEach((list) => {
+          const ownership = list.isOwner ? "Shared by you" : "Shared with you"
+          output += `   ├─ ${list.displayName} [${ownership}]\n`
+        })
+
+        output += `\n🔒 Personal Lists (${personalLists.length})\n`
+        personalLists.forEach((list) => {
+          output += `   ├─ ${list.displayName}\n`
+        })
+        output += pagingNote
+
+        return {
+          content: [{ type: "text", text: output }],
+          structuredContent: {
+            groupBy,
+            groups: [
+              { name: "Shared", lists: sharedLists },
+              { name: "Personal", lists: personalLists },
+            ],
+          },
+        }
+      }
+
+      let organized: { [category: string]: TaskList[] }
+      let sortedCategories: string[]
+      let output: string
+
+      if (groupBy === "type") {
+        // Group by kind of list: default, flagged emails, personal, shared by/with you
+        organized = groupListsByType(lists)
+        sortedCategories = LIST_TYPE_ORDER.filter((type) => organized[type])
+
+        output = "📂 Microsoft To Do Lists - By List Type\n"
+      } else {
+        // Default: organize by category using the configured naming rules
+        const config = loadOrganizationConfig(tokenManager.configDir, rules)
+        organized = organizeLists(lists, config)
+        sortedCategories = sortCategories(Object.keys(organized), config)
+
+        output = "📂 Microsoft To Do Lists - Organized View\n"
+      }
+      output += "=".repeat(50) + "\n\n"
+
+      sortedCategories.forEach((category) => {
+        const categoryLists = organized[category]
+        output += `${category} (${categoryLists.length})\n`
+
+        categoryLists.forEach((list, index) => {
+          const isLast = index === categoryLists.length - 1
+          const prefix = isLast ? "└─" : "├─"
+
+          let listInfo = `${prefix} ${list.displayName}`
+
+          // Add metadata
+          const metadata: string[] = []
+          if (list.wellknownListName === "defaultList") metadata.push("Default")
+          if (list.wellknownListName === "flaggedEmails") metadata.push("Flagged Emails")
+          if (list.isShared && list.isOwner) metadata.push("Shared by you")
+          if (list.isShared && !list.isOwner) metadata.push("Shared with you")
+
+          if (metadata.length > 0) {
+            listInfo += ` [${metadata.join(", ")}]`
+          }
+
+          output += `   ${listInfo}\n`
+
+          if (!isLast) {
+            output += "   │\n"
+          }
+        })
+
+        output += "\n"
+      })
+
+      // Add summary
+      const totalLists = Object.values(organized).reduce((sum, l) => sum + l.length, 0)
+      const totalCategories = Object.keys(organized).length
+
+      output += "-".repeat(50) + "\n"
+      output += `Summary: ${totalLists} lists in ${totalCategories} categories\n`
+      output += pagingNote
+
+      if (includeIds) {
+        // Add a section with IDs
+        output += "\n\n📋 List IDs Reference:\n" + "-".repeat(50) + "\n"
+        lists.forEach((list) => {
+          output += `${list.displayName}: ${list.id}\n`
+        })
+      }
+
+      return {
+        content: [{ type: "text", text: output }],
+        structuredContent: {
+          groupBy: groupBy ?? "category",
+          groups: sortedCategories.map((category) => ({ name: category, lists: organized[category] })),
+        },
+      }
+    } catch (error) {
+      return errorResult("fetching organized task lists", error)
+    }
+  },
+)
+
+registerTool(
+  "create-task-list",
+  {
+    description:
+      "Create a new task list (top-level container) in Microsoft Todo to help organize your tasks into categories or projects.",
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    inputSchema: {
+      displayName: z.string().describe("Name of the new task list"),
+    },
+    outputSchema: { list: taskListSchema },
+  },
+  async ({ displayName }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
+
+      // Prepare the request body
+      const requestBody = {
+        displayName,
+      }
+
+      // Make the API request to create the task list
+      const response = await makeGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token, "POST", requestBody)
+      recordOperation("create-task-list", `Created list "${response.displayName}"`, [
+        { action: "create", ref: { kind: "list", listId: response.id }, after: response },
+      ])
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Task list created successfully!\nName: ${response.displayName}\nID: ${response.id}`,
+          },
+        ],
+        structuredContent: { list: response },
+      }
+    } catch (error) {
+      return errorResult("creating task list", error)
+    }
+  },
+)
+
+registerTool(
+  "update-task-list",
+  {
+    description: "Update the name of an existing task list (top-level container) in Microsoft Todo.",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list to update"),
+      displayName: z.string().describe("New name for the task list"),
+    },
+    outputSchema: { list: taskListSchema },
+  },
+  async ({ listId: listRef, displayName }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
+
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+
+      // Prepare the request body
+      const requestBody = {
+        displayName,
+      }
+
+      // Make the API request to update the task list
+      const { response, change } = await patchWithJournal<TaskList>(token, { kind: "list", listId }, requestBody)
+      recordOperation("update-task-list", `Renamed list "${change.before.displayName}" to "${response.displayName}"`, [
+        change,
+      ])
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Task list updated successfully!\nNew name: ${response.displayName}`,
+          },
+        ],
+        structuredContent: { list: response },
+      }
+    } catch (error) {
+      return errorResult("updating task list", error)
+    }
+  },
+)
+
+registerTool(
+  "delete-task-list",
+  {
+    description:
+      "Delete a task list (top-level container) from Microsoft Todo. This will remove the list and all tasks within it. The user is asked to confirm first, with the number of tasks affected. The list and its tasks are kept in the local trash and can be restored with restore-from-trash.",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list to delete"),
+      ...confirmParam,
+    },
+    outputSchema: { deleted: z.boolean(), listId: z.string(), trashEntryId: z.string().optional() },
+  },
+  async ({ listId: listRef, confirm }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
+
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+
+      // The list takes all of its tasks with it, so show how many before asking
+      const { listName, content } = await snapshotForTrash(token, { kind: "list", listId })
+      const openCount = content.tasks.filter((task) => task.status !== "completed").length
+
+      const confirmation = await confirmDestructiveAction(
+        `Delete the list "${listName}" and all ${content.tasks.length} of its tasks (${openCount} not completed)? They are kept in the local trash.`,
+        confirm,
+      )
+      if (!confirmation.confirmed) {
+        return notConfirmedResult(confirmation, { deleted: false, listId })
+      }
+
+      // Make a DELETE request to the Microsoft Graph API
+      const url = `${MS_GRAPH_BASE}/me/todo/lists/${listId}`
+      console.error(`Deleting task list: ${url}`)
+
+      const entry = await deleteToTrash(token, url, { listId, listName }, content)
+      recordOperation("delete-task-list", `Deleted list "${listName}" with ${content.tasks.length} task(s)`, [
+        { action: "delete", ref: { kind: "list", listId }, trashEntryId: entry.id },
+      ])
+
+      // If we get here, the delete was successful (204 No Content)
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Task list with ID: ${listId} was successfully deleted. ${RESTORE_HINT} (trash entry ID: ${entry.id})`,
+          },
+        ],
+        structuredContent: { deleted: true, listId, trashEntryId: entry.id },
+      }
+    } catch (error) {
+      return errorResult("deleting task list", error)
+    }
+  },
+)
+
+registerTool(
+  "get-tasks",
+  {
+    description:
+      "Get tasks from a specific Microsoft Todo list. These are the main todo items that can contain checklist items (subtasks).",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      filter: z.string().optional().describe("OData $filter query (e.g., 'status eq \\'completed\\'')"),
+      select: z.string().optional().describe("Comma-separated list of properties to include (e.g., 'id,title,status')"),
+      orderby: z.string().optional().describe("Property to sort by (e.g., 'createdDateTime desc')"),
+      top: z
+        .number()
+        .optional()
+        .describe("Maximum number of tasks to retrieve (reads a single page unless maxPages is also set)"),
+      skip: z.number().optional().describe("Number of tasks to skip"),
+      count: z.boolean().optional().describe("Whether to include a count of tasks"),
+      ...pagingParams,
+      useCache: z
+        .boolean()
+        .optional()
+        .describe(
+          "Answer from the local sync cache instead of calling Graph (refreshed when older than a few minutes). Cannot be combined with OData options or cursor.",
+        ),
+    },
+    outputSchema: {
+      listId: z.string(),
+      tasks: z.array(selectedTaskSchema.extend({ attachments: z.array(attachmentSchema).optional() })),
+      count: z.number().optional(),
+      nextCursor: nextCursorSchema,
+    },
+  },
+  async ({ listId: listRef, filter, select, orderby, top, skip, count, maxPages, cursor, useCache }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
+
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+
+      let response: PagedResult<Task>
+
+      if (useCache) {
+        // The cache holds plain snapshots; OData queries only work against Graph
+        if (filter || select || orderby || top !== undefined || skip !== undefined || cursor) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "useCache cannot be combined with filter, select, orderby, top, skip or cursor. Drop useCache to query Graph directly.",
+              },
+            ],
+            isError: true,
+          }
+        }
+
+        await ensureFreshCache(token, listId)
+        const cachedTasks = syncCache.getTasks(listId) ?? []
+        response = { items: cachedTasks, pages: 0, count: cachedTasks.length }
+      } else {
+        // Build the query parameters
+        const queryParams = new URLSearchParams()
+
+        if (filter) queryParams.append("$filter", filter)
+        if (select) queryParams.append("$select", select)
+        if (orderby) queryParams.append("$orderby", orderby)
+        if (top !== undefined) queryParams.append("$top", top.toString())
+        if (skip !== undefined) queryParams.append("$skip", skip.toString())
+        if (count !== undefined) queryParams.append("$count", count.toString())
+
+        // Construct the URL with query parameters
+        const queryString = queryParams.toString()
+        const url = `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks${queryString ? "?" + queryString : ""}`
+
+        console.error(`Making request to: ${url}`)
+
+        // An explicit $top keeps its "at most N tasks" meaning: read one page and hand back a cursor for the rest
+        response = await makePagedGraphRequest<Task>(url, token, {
+          maxPages: maxPages ?? (top !== undefined ? 1 : undefined),
+          cursor,
+        })
+      }
+
+      const tasks = response.items
+      if (tasks.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No tasks found in list with ID: ${listId}`,
+            },
+          ],
+          structuredContent: { listId, tasks: [], count: response.count, nextCursor: response.nextCursor },
+        }
+      }
+
+      // Dates are shown in the user's time zone
+      const timeZone = await getUserTimeZone(token)
+
+      // Graph only flags that a task has attachments; their names, sizes and types need a call per task
+      const tasksWithAttachments = await mapWithConcurrency(tasks, LIST_FANOUT_CONCURRENCY, async (task) =>
+        task.hasAttachments ? { ...task, attachments: await listTaskAttachments(token, listId, task.id) } : task,
+      )
+
+      // Format the tasks based on available properties
+      const formattedTasks = tasksWithAttachments.map((task) => {
+        // Default format
+        let taskInfo = `ID: ${task.id}\nTitle: ${task.title}`
+
+        // Add status if available
+        if (task.status) {
+          const status = task.status === "completed" ? "✓" : "○"
+          taskInfo = `${status} ${taskInfo}`
+        }
+
+        // Add due date if available
+        if (task.dueDateTime) {
+          taskInfo += `\nDue: ${formatGraphDateTime(task.dueDateTime, timeZone, { dateOnly: true })}`
+        }
+
+        // Add importance if available
+        if (task.importance) {
+          taskInfo += `\nImportance: ${task.importance}`
+        }
+
+        // Add recurrence if the task repeats
+        if (task.recurrence) {
+          taskInfo += `\nRepeats: ${describeRecurrence(task.recurrence)}`
+        }
+
+        // Add categories if available
+        if (task.categories && task.categories.length > 0) {
+          taskInfo += `\nCategories: ${task.categories.join(", ")}`
+        }
+
+        if ("attachments" in task && task.attachments.length > 0) {
+          taskInfo += `\nAttachments:\n${task.attachments.map((attachment) => `  ${formatAttachment(attachment)}`).join("\n")}`
+        }
+
+        // Add body content if available and not empty
+        if (task.body && task.body.content && task.body.content.trim() !== "") {
+          const previewLength = 50
+          const contentPreview =
+            task.body.content.length > previewLength
+              ? task.body.content.substring(0, previewLength) + "..."
+              : task.body.content
+          taskInfo += `\nDescription: ${contentPreview}`
+        }
+
+        return `${taskInfo}\n---`
+      })
+
+      // Add count information if requested and available
+      let countInfo = ""
+      if (count && response.count !== undefined) {
+        countInfo = `Total count: ${response.count}\n\n`
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Tasks in list ${listId}:\n\n${countInfo}${formattedTasks.join("\n")}${formatCursorHint(response.nextCursor)}${useCache ? formatCacheNote() : ""}`,
+          },
+        ],
+        structuredContent: {
+          listId,
+          tasks: tasksWithAttachments,
+          count: response.count,
+          nextCursor: response.nextCursor,
+        },
+      }
+    } catch (error) {
+      return errorResult("fetching tasks", error)
+    }
+  },
+)
+
+registerTool(
+  "get-task",
+  {
+    description:
+      "Get a single task with all of its properties in full: body (noting whether it is HTML or plain text), dates, reminder, recurrence, timestamps, checklist items, linked resources and attachments.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task"),
+    },
+    outputSchema: { listId: z.string(), task: taskSchema, attachments: z.array(attachmentSchema) },
+  },
+  async ({ listId: listRef, taskId: taskRef }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
+
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
+
+      const task = await getTaskWithDetails(token, listId, taskId)
+      const timeZone = await getUserTimeZone(token)
+      const attachments = task.hasAttachments ? await listTaskAttachments(token, listId, taskId) : []
+
+      const status = task.status === "completed" ? "✓" : "○"
+      let output = `${status} ${task.title}\n`
+      output += "=".repeat(50) + "\n"
+      output += `ID: ${task.id}\nList ID: ${listId}\n`
+      output += `Status: ${task.status}\nImportance: ${task.importance}\n`
+
+      if (task.categories && task.categories.length > 0) {
+        output += `Categories: ${task.categories.join(", ")}\n`
+      }
+
+      // Dates in the user's time zone
+      output += "\n📅 Dates\n"
+      output += `Due: ${formatOptionalDateTime(task.dueDateTime, timeZone, { dateOnly: true })}\n`
+      output += `Start: ${formatOptionalDateTime(task.startDateTime, timeZone, { dateOnly: true })}\n`
+      output += `Reminder: ${task.isReminderOn ? "on" : "off"}${task.reminderDateTime ? `, ${formatGraphDateTime(task.reminderDateTime, timeZone)}` : ""}\n`
+      output += `Repeats: ${task.recurrence ? describeRecurrence(task.recurrence) : "no"}\n`
+      if (task.completedDateTime) {
+        output += `Completed: ${formatGraphDateTime(task.completedDateTime, timeZone)}\n`
+      }
+      output += `Created: ${task.createdDateTime ? formatInstant(new Date(task.createdDateTime), timeZone) : "not set"}\n`
+      output += `Last modified: ${task.lastModifiedDateTime ? formatInstant(new Date(task.lastModifiedDateTime), timeZone) : "not set"}\n`
+
+      // The full body, flagged as HTML or plain text so callers know how to read it
+      if (task.body && task.body.content && task.body.content.trim() !== "") {
+        const bodyType = task.body.contentType?.toLowerCase() === "html" ? "HTML" : "plain text"
+        output += `\n📝 Body (${bodyType})\n${task.body.content}\n`
+      } else {
+        output += "\n📝 Body: empty\n"
+      }
+
+      const checklistItems = task.checklistItems || []
+      output += `\n☑️ Checklist items (${checklistItems.length})\n`
+      checklistItems.forEach((item) => {
+        output += `${item.isChecked ? "✓" : "○"} ${item.displayName} (ID: ${item.id})\n`
+      })
+
+      const linkedResources = task.linkedResources || []
+      output += `\n🔗 Linked resources (${linkedResources.length})\n`
+      linkedResources.forEach((resource) => {
+        output += `${formatLinkedResource(resource)}\n`
+      })
+
+      output += `\n📎 Attachments (${attachments.length})\n`
+      attachments.forEach((attachment) => {
+        output += `${formatAttachment(attachment)}\n`
+      })
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: output,
+          },
+        ],
+        structuredContent: { listId, task, attachments },
+      }
+    } catch (error) {
+      return errorResult("fetching task", error)
+    }
+  },
+)
+
+registerTool(
+  "search-tasks",
+  {
+    description:
+      "Search for tasks across all Microsoft Todo lists (or a chosen subset) without knowing list IDs. Matches on title and body text, categories, status, importance and due-date range, and returns hits grouped by list with both list and task IDs.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      query: z.string().optional().describe("Text to look for in the task title or body (case-insensitive)"),
+      listIds: z.array(z.string()).optional().describe("Only search these lists, by ID or name (default: all lists)"),
+      categories: z.array(z.string()).optional().describe("Only tasks with at least one of these categories"),
+      status: z
+        .enum(["notStarted", "inProgress", "completed", "waitingOnOthers", "deferred"])
+        .optional()
+        .describe("Only tasks with this status"),
+      importance: z.enum(["low", "normal", "high"]).optional().describe("Only tasks with this importance"),
+      dueAfter: z.string().optional().describe("Only tasks due on or after this date (YYYY-MM-DD)"),
+      dueBefore: z.string().optional().describe("Only tasks due on or before this date (YYYY-MM-DD)"),
+      maxResults: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(50)
+        .describe("Maximum number of tasks to return (default: 50)"),
+      useCache: z.boolean().optional().describe("Search the local sync cache instead of calling Graph for every list"),
+    },
+    outputSchema: {
+      totalMatches: z.number(),
+      listsSearched: z.number(),
+      results: z.array(listTaskSchema).describe("Matching tasks, up to maxResults"),
+    },
+  },
+  async ({ query, listIds, categories, status, importance, dueAfter, dueBefore, maxResults, useCache }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
+
+      if (useCache) {
+        await ensureFreshCache(token)
+      }
+
+      const allLists = useCache
+        ? syncCache.getLists()
+        : (await makePagedGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token)).items
+      // Accept names as well as IDs
+      const lists = listIds ? listIds.map((ref) => resolveList(allLists, ref)) : allLists
+
+      if (lists.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No task lists found.",
+            },
+          ],
+          structuredContent: { totalMatches: 0, listsSearched: 0, results: [] },
+        }
+      }
+
+      // Status and importance can be filtered by Graph; everything else is matched locally
+      const serverFilters: string[] = []
+      if (status) serverFilters.push(`status eq '${status}'`)
+      if (importance) serverFilters.push(`importance eq '${importance}'`)
+      const filterQuery = serverFilters.length > 0 ? `?$filter=${encodeURIComponent(serverFilters.join(" and "))}` : ""
+
+      // Due-date bounds are calendar days in the user's time zone
+      const timeZone = await getUserTimeZone(token)
+      const needle = query?.toLowerCase()
+      const wantedCategories = categories?.map((c) => c.toLowerCase())
+
+      const matches = (task: Task): boolean => {
+        if (status && task.status !== status) return false
+        if (importance && task.importance !== importance) return false
+
+        if (needle) {
+          const bodyText = task.body?.content ? stripHtml(task.body.content) : ""
+          if (!task.title.toLowerCase().includes(needle) && !bodyText.toLowerCase().includes(needle)) return false
+        }
+
+        if (wantedCategories && wantedCategories.length > 0) {
+          const taskCategories = (task.categories || []).map((c) => c.toLowerCase())
+          if (!wantedCategories.some((c) => taskCategories.includes(c))) return false
+        }
+
+        if (dueAfter || dueBefore) {
+          const dueDate = task.dueDateTime ? toLocalDate(task.dueDateTime, timeZone) : undefined
+          if (!dueDate) return false
+          if (dueAfter && dueDate < dueAfter) return false
+          if (dueBefore && dueDate > dueBefore) return false
+        }
+
+        return true
+      }
+
+      const results = await mapWithConcurrency(lists, LIST_FANOUT_CONCURRENCY, async (list) => {
+        const tasks = useCache
+          ? (syncCache.getTasks(list.id) ?? [])
+          : (await makePagedGraphRequest<Task>(`${MS_GRAPH_BASE}/me/todo/lists/${list.id}/tasks${filterQuery}`, token))
+              .items
+        return { list, tasks: tasks.filter(matches) }
+      })
+
+      const totalMatches = results.reduce((sum, r) => sum + r.tasks.length, 0)
+      if (totalMatches === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No matching tasks found in ${lists.length} list(s).${useCache ? formatCacheNote() : ""}`,
+            },
+          ],
+          structuredContent: { totalMatches: 0, listsSearched: lists.length, results: [] },
+        }
+      }
+
+      let output = `🔍 Found ${totalMatches} matching task(s) in ${lists.length} list(s)`
+      output += totalMatches > maxResults ? ` (showing the first ${maxResults})\n\n` : "\n\n"
+
+      let shown = 0
+      for (const { list, tasks } of results) {
+        if (tasks.length === 0 || shown >= maxResults) continue
+
+        output += `📋 ${list.displayName} (List ID: ${list.id})\n`
+        for (const task of tasks.slice(0, maxResults - shown)) {
+          const statusIcon = task.status === "completed" ? "✓" : "○"
+          const details: string[] = []
+          if (task.dueDateTime) details.push(`due ${toLocalDate(task.dueDateTime, timeZone)}`)
+          if (task.importance && task.importance !== "normal") details.push(`${task.importance} importance`)
+          if (task.categories && task.categories.length > 0) details.push(task.categories.join(", "))
+
+          output += `   ${statusIcon} ${task.title}${details.length > 0 ? ` [${details.join("; ")}]` : ""}\n`
+          output += `      Task ID: ${task.id}\n`
+          shown++
+        }
+        output += "\n"
+      }
+
+      const shownResults = results
+        .flatMap(({ list, tasks }) => tasks.map((task) => ({ listId: list.id, listName: list.displayName, task })))
+        .slice(0, maxResults)
+
+      return {
+        content: [{ type: "text", text: output.trimEnd() + (useCache ? formatCacheNote() : "") }],
+        structuredContent: { totalMatches, listsSearched: lists.length, results: shownResults },
+      }
+    } catch (error) {
+      return errorResult("searching tasks", error)
+    }
+  },
+)
+
+interface AgendaOptions {
+  days: number
+  listIds?: string[]
+  importance?: "low" | "normal" | "high"
+  categories?: string[]
+  includeNoDueDate: boolean
+  maxPerBucket: number
+  useCache?: boolean
+}
+
+type AgendaItem = { list: TaskList; task: Task; dueDate?: string }
+
+// Open tasks in overdue, today, upcoming and no-due-date buckets, rendered as text and as structured
+// content. Shared by the agenda tool and the planning prompts.
+async function buildAgenda(
+  token: string,
+  options: AgendaOptions,
+): Promise<{ text: string; structured: { [key: string]: unknown } }> {
+  const { days, listIds, importance, categories, includeNoDueDate, maxPerBucket, useCache } = options
+
+  if (useCache) {
+    await ensureFreshCache(token)
+  }
+
+  const allLists = useCache
+    ? syncCache.getLists()
+    : (await makePagedGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token)).items
+  // Accept names as well as IDs
+  const lists = listIds ? listIds.map((ref) => resolveList(allLists, ref)) : allLists
+
+  // Only open tasks belong on an agenda; Graph can filter those out for us
+  const serverFilters = ["status ne 'completed'"]
+  if (importance) serverFilters.push(`importance eq '${importance}'`)
+  const filterQuery = `?$filter=${encodeURIComponent(serverFilters.join(" and "))}`
+
+  const wantedCategories = categories?.map((c) => c.toLowerCase())
+
+  const results = await mapWithConcurrency(lists, LIST_FANOUT_CONCURRENCY, async (list) => {
+    const tasks = useCache
+      ? (syncCache.getTasks(list.id) ?? [])
+      : (await makePagedGraphRequest<Task>(`${MS_GRAPH_BASE}/me/todo/lists/${list.id}/tasks${filterQuery}`, token))
+          .items
+    return tasks
+      .filter((task) => task.status !== "completed")
+      .filter((task) => !importance || task.importance === importance)
+      .filter((task) => {
+        if (!wantedCategories || wantedCategories.length === 0) return true
+        const taskCategories = (task.categories || []).map((c) => c.toLowerCase())
+        return wantedCategories.some((c) => taskCategories.includes(c))
+      })
+      .map((task) => ({ list, task }))
+  })
+
+  // Bucket by calendar day in the user's time zone
+  const timeZone = await getUserTimeZone(token)
+  const today = todayInTimeZone(timeZone)
+  const lastUpcomingDay = addDays(today, days)
+
+  const buckets: { overdue: AgendaItem[]; today: AgendaItem[]; upcoming: AgendaItem[]; noDueDate: AgendaItem[] } = {
+    overdue: [],
+    today: [],
+    upcoming: [],
+    noDueDate: [],
+  }
+
+  for (const { list, task } of results.flat()) {
+    const dueDate = task.dueDateTime ? toLocalDate(task.dueDateTime, timeZone) : undefined
+    const item = { list, task, dueDate }
+
+    if (!dueDate) buckets.noDueDate.push(item)
+    else if (dueDate < today) buckets.overdue.push(item)
+    else if (dueDate === today) buckets.today.push(item)
+    else if (dueDate <= lastUpcomingDay) buckets.upcoming.push(item)
+  }
+
+  // Earliest due first, then most important, then by title
+  const importanceRank: Record<string, number> = { high: 0, normal: 1, low: 2 }
+  const byDueThenImportance = (a: AgendaItem, b: AgendaItem) =>
+    (a.dueDate ?? "").localeCompare(b.dueDate ?? "") ||
+    (importanceRank[a.task.importance] ?? 1) - (importanceRank[b.task.importance] ?? 1) ||
+    a.task.title.localeCompare(b.task.title)
+  Object.values(buckets).forEach((bucket) => bucket.sort(byDueThenImportance))
+
+  const formatBucket = (title: string, items: AgendaItem[]): string => {
+    let section = `${title} (${items.length})\n`
+    if (items.length === 0) return section + "   Nothing here\n\n"
+
+    for (const { list, task, dueDate } of items.slice(0, maxPerBucket)) {
+      const details: string[] = []
+      if (dueDate) details.push(`due ${dueDate}`)
+      if (task.importance === "high") details.push("❗ high importance")
+      if (task.categories && task.categories.length > 0) details.push(task.categories.join(", "))
+
+      section += `   ○ ${task.title}${details.length > 0 ? ` [${details.join("; ")}]` : ""} — 📋 ${list.displayName}\n`
+      section += `      List ID: ${list.id} | Task ID: ${task.id}\n`
+    }
+    if (items.length > maxPerBucket) {
+      section += `   … and ${items.length - maxPerBucket} more\n`
+    }
+    return section + "\n"
+  }
+
+  let output = `📅 Agenda for ${today} (${timeZone.iana})\n`
+  output += "=".repeat(50) + "\n"
+  output += `Overdue: ${buckets.overdue.length} | Today: ${buckets.today.length} | Next ${days} days: ${buckets.upcoming.length}`
+  output += includeNoDueDate ? ` | No due date: ${buckets.noDueDate.length}\n\n` : "\n\n"
+
+  output += formatBucket("⚠️ Overdue", buckets.overdue)
+  output += formatBucket("📌 Today", buckets.today)
+  output += formatBucket(`🗓️ Next ${days} days (through ${lastUpcomingDay})`, buckets.upcoming)
+  if (includeNoDueDate) {
+    output += formatBucket("📭 No due date", buckets.noDueDate)
+  }
+
+  // The same buckets as data, capped like the text
+  const toItems = (items: AgendaItem[]) =>
+    items
+      .slice(0, maxPerBucket)
+      .map(({ list, task, dueDate }) => ({ listId: list.id, listName: list.displayName, dueDate, task }))
+
+  return {
+    text: output.trimEnd(),
+    structured: {
+      date: today,
+      timeZone: timeZone.iana,
+      counts: {
+        overdue: buckets.overdue.length,
+        today: buckets.today.length,
+        upcoming: buckets.upcoming.length,
+        noDueDate: includeNoDueDate ? buckets.noDueDate.length : 0,
+      },
+      overdue: toItems(buckets.overdue),
+      today: toItems(buckets.today),
+      upcoming: toItems(buckets.upcoming),
+      noDueDate: includeNoDueDate ? toItems(buckets.noDueDate) : [],
+    },
+  }
+}
+
+registerTool(
+  "agenda",
+  {
+    description:
+      "Answer \"what's on my plate\": open tasks from all lists (or a chosen subset) in overdue, today, upcoming (next N days) and no-due-date buckets, sorted by due date and then importance. Each task shows its list name and both IDs. Dates follow the user's time zone.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      days: z
+        .number()
+        .int()
+        .min(1)
+        .max(90)
+        .optional()
+        .default(7)
+        .describe("How many days after today the upcoming bucket covers (default: 7)"),
+      listIds: z.array(z.string()).optional().describe("Only these lists, by ID or name (default: all lists)"),
+      importance: z.enum(["low", "normal", "high"]).optional().describe("Only tasks with this importance"),
+      categories: z.array(z.string()).optional().describe("Only tasks with at least one of these categories"),
+      includeNoDueDate: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Include open tasks without a due date (default: true)"),
+      maxPerBucket: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(25)
+        .describe("Maximum number of tasks shown in each bucket (default: 25)"),
+      useCache: z
+        .boolean()
+        .optional()
+        .describe("Read from the local sync cache instead of calling Graph for every list"),
+    },
+    outputSchema: {
+      date: z.string().describe("Today in the user's time zone (YYYY-MM-DD)"),
+      timeZone: z.string(),
+      counts: z.object({ overdue: z.number(), today: z.number(), upcoming: z.number(), noDueDate: z.number() }),
+      overdue: z.array(agendaItemSchema),
+      today: z.array(agendaItemSchema),
+      upcoming: z.array(agendaItemSchema),
+      noDueDate: z.array(agendaItemSchema),
+    },
+  },
+  async ({ days, listIds, importance, categories, includeNoDueDate, maxPerBucket, useCache }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
+
+      const { text, structured } = await buildAgenda(token, {
+        days,
+        listIds,
+        importance,
+        categories,
+        includeNoDueDate,
+        maxPerBucket,
+        useCache,
+      })
+
+      return {
+        content: [{ type: "text", text: text + (useCache ? formatCacheNote() : "") }],
+        structuredContent: structured,
+      }
+    } catch (error) {
+      return errorResult("building agenda", error)
+    }
+  },
+)
+
+registerTool(
+  "create-task",
+  {
+    description:
+      "Create a new task in a specific Microsoft Todo list. A task is the main todo item that can have a title, description, due date, and other properties.",
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      title: z.string().describe("Title of the task"),
+      body: z.string().optional().describe("Description or body content of the task"),
+      dueDateTime: z
+        .string()
+        .optional()
+        .describe(
+          "Due date in your time zone: 2023-12-31, or a phrase like 'tomorrow', 'next friday', 'in 3 days' or 'eom'",
+        ),
+      startDateTime: z
+        .string()
+        .optional()
+        .describe("Start date in your time zone: 2023-12-31, or a phrase like 'next monday'"),
+      importance: z.enum(["low", "normal", "high"]).optional().describe("Task importance"),
+      isReminderOn: z.boolean().optional().describe("Whether to enable reminder for this task"),
+      reminderDateTime: z
+        .string()
+        .optional()
+        .describe(
+          "Reminder time: 2023-12-31T09:00 in your time zone, an ISO timestamp with an offset, or a phrase like 'tomorrow 9am' or 'in 2 hours'",
+        ),
+      status: z
+        .enum(["notStarted", "inProgress", "completed", "waitingOnOthers", "deferred"])
+        .optional()
+        .describe("Status of the task"),
+      categories: z.array(z.string()).optional().describe("Categories associated with the task"),
+      recurrence: recurrenceSchema
+        .optional()
+        .describe("Make the task repeat, e.g. { type: 'weekly', daysOfWeek: ['monday'] }. Needs dueDateTime."),
+      linkedResource: z
+        .object(linkedResourceFields)
+        .optional()
+        .describe("Link the new task to the item it came from, such as a GitHub issue, pull request or ticket"),
+    },
+    outputSchema: { task: taskSchema },
+  },
+  async ({
+    listId: listRef,
+    title,
+    body,
+    dueDateTime,
+    startDateTime,
+    importance,
+    isReminderOn,
+    reminderDateTime,
+    status,
+    categories,
+    recurrence,
+    linkedResource,
+  }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
+
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+
+      // Dates without an offset are in the user's time zone
+      const timeZone = await getUserTimeZone(token)
+
+      // Construct the task body with all supported properties
+      const taskBody: any = { title }
+
+      // Add optional properties if provided
+      if (body) {
+        taskBody.body = {
+          content: body,
+          contentType: "text",
+        }
+      }
+
+      if (dueDateTime) {
+        taskBody.dueDateTime = toGraphDateTime(dueDateTime, timeZone)
+      }
+
+      if (startDateTime) {
+        taskBody.startDateTime = toGraphDateTime(startDateTime, timeZone)
+      }
+
+      if (importance) {
+        taskBody.importance = importance
+      }
+
+      if (isReminderOn !== undefined) {
+        taskBody.isReminderOn = isReminderOn
+      }
+
+      if (reminderDateTime) {
+        taskBody.reminderDateTime = toGraphDateTime(reminderDateTime, timeZone)
+      }
+
+      if (status) {
+        taskBody.status = status
+      }
+
+      if (categories && categories.length > 0) {
+        taskBody.categories = categories
+      }
+
+      if (recurrence) {
+        // To Do only repeats tasks that have a due date
+        if (!dueDateTime) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Recurring tasks need a due date. Add dueDateTime along with recurrence.",
+              },
+            ],
+            isError: true,
+          }
+        }
+        taskBody.recurrence = toPatternedRecurrence(recurrence, timeZone, taskBody.dueDateTime.dateTime)
+      }
+
+      if (linkedResource) {
+        // Graph creates linked resources sent along with the new task
+        taskBody.linkedResources = [linkedResource]
+      }
+
+      const response = await makeGraphRequest<Task>(
+        `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks`,
+        token,
+        "POST",
+        taskBody,
+      )
+      recordOperation("create-task", `Created task "${response.title}"`, [
+        { action: "create", ref: { kind: "task", listId, taskId: response.id }, after: response },
+      ])
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Task created successfully!\nID: ${response.id}\nTitle: ${response.title}${formatResolvedDates(
+              [
+                { label: "Due", input: dueDateTime, value: taskBody.dueDateTime, dateOnly: true },
+                { label: "Start", input: startDateTime, value: taskBody.startDateTime, dateOnly: true },
+                { label: "Reminder", input: reminderDateTime, value: taskBody.reminderDateTime },
+              ],
+              timeZone,
+            )}${response.recurrence ? `\nRepeats: ${describeRecurrence(response.recurrence)}` : ""}${linkedResource ? `\nLinked to: ${linkedResource.displayName}` : ""}`,
+          },
+        ],
+        structuredContent: { task: response },
+      }
+    } catch (error) {
+      return errorResult("creating task", error)
+    }
+  },
+)
+
+registerTool(
+  "update-task",
+  {
+    description:
+      "Update an existing task in Microsoft Todo. Allows changing any properties of the task including title, due date, importance, etc.",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task to update"),
+      title: z.string().optional().describe("New title of the task"),
+      body: z.string().optional().describe("New description or body content of the task"),
+      dueDateTime: z
+        .string()
+        .optional()
+        .describe(
+          "New due date in your time zone: 2023-12-31 or a phrase like 'next friday' or 'eom'; an empty string removes it",
+        ),
+      startDateTime: z
+        .string()
+        .optional()
+        .describe(
+          "New start date in your time zone: 2023-12-31 or a phrase like 'tomorrow'; an empty string removes it",
+        ),
+      importance: z.enum(["low", "normal", "high"]).optional().describe("New task importance"),
+      isReminderOn: z.boolean().optional().describe("Whether to enable reminder for this task"),
+      reminderDateTime: z
+        .string()
+        .optional()
+        .describe(
+          "New reminder time: 2023-12-31T09:00 in your time zone or a phrase like 'friday at 3pm'; an empty string removes it",
+        ),
+      status: z
+        .enum(["notStarted", "inProgress", "completed", "waitingOnOthers", "deferred"])
+        .optional()
+        .describe("New status of the task"),
+      categories: z.array(z.string()).optional().describe("New categories associated with the task"),
+      recurrence: recurrenceSchema
+        .nullable()
+        .optional()
+        .describe("New recurrence pattern, or null to stop the task repeating"),
+    },
+    outputSchema: { task: taskSchema },
+  },
+  async ({
+    listId: listRef,
+    taskId: taskRef,
+    title,
+    body,
+    dueDateTime,
+    startDateTime,
+    importance,
+    isReminderOn,
+    reminderDateTime,
+    status,
+    categories,
+    recurrence,
+  }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
+
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
+
+      // Dates without an offset are in the user's time zone
+      const timeZone = await getUserTimeZone(token)
+
+      // Construct the task update body with all provided properties
+      const taskBody: any = {}
+
+      // Add optional properties if provided
+      if (title !== undefined) {
+        taskBody.title = title
+      }
+
+      if (body !== undefined) {
+        taskBody.body = {
+          content: body,
+          contentType: "text",
+        }
+      }
+
+      if (dueDateTime !== undefined) {
+        if (dueDateTime === "") {
+          // Remove the due date by setting it to null
+          taskBody.dueDateTime = null
+        } else {
+          taskBody.dueDateTime = toGraphDateTime(dueDateTime, timeZone)
+        }
+      }
+
+      if (startDateTime !== undefined) {
+        if (startDateTime === "") {
+          // Remove the start date by setting it to null
+          taskBody.startDateTime = null
+        } else {
+          taskBody.startDateTime = toGraphDateTime(startDateTime, timeZone)
+        }
+      }
+
+      if (importance !== undefined) {
+        taskBody.importance = importance
+      }
+
+      if (isReminderOn !== undefined) {
+        taskBody.isReminderOn = isReminderOn
+      }
+
+      if (reminderDateTime !== undefined) {
+        if (reminderDateTime === "") {
+          // Remove the reminder date by setting it to null
+          taskBody.reminderDateTime = null
+        } else {
+          taskBody.reminderDateTime = toGraphDateTime(reminderDateTime, timeZone)
+        }
+      }
+
+      if (status !== undefined) {
+        taskBody.status = status
+      }
+
+      if (categories !== undefined) {
+        taskBody.categories = categories
+      }
+
+      if (recurrence === null) {
+        // Remove the recurrence by setting it to null
+        taskBody.recurrence = null
+      } else if (recurrence !== undefined) {
+        // Without an explicit start date the recurrence starts on the due date, new or existing
+        let dueDate: string | undefined = taskBody.dueDateTime?.dateTime
+        if (!recurrence.startDate && !dueDate) {
+          const existing = await makeGraphRequest<Task>(
+            `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}?$select=dueDateTime`,
+            token,
+          )
+          dueDate = existing.dueDateTime ? toLocalDate(existing.dueDateTime, timeZone) : undefined
+        }
+        taskBody.recurrence = toPatternedRecurrence(recurrence, timeZone, dueDate)
+      }
+
+      // Make sure we have at least one property to update
+      if (Object.keys(taskBody).length === 0) {
+        return {
           content: [
             {
               type: "text",
-              text: "Failed to retrieve task lists",
+              text: "No properties provided for update. Please specify at least one property to change.",
             },
           ],
+          isError: true,
         }
       }
 
-      const lists = response.value || []
-      if (lists.length === 0) {
+      const { response, change } = await patchWithJournal<Task>(token, { kind: "task", listId, taskId }, taskBody)
+      recordOperation("update-task", `Updated ${Object.keys(taskBody).join(", ")} of task "${response.title}"`, [
+        change,
+      ])
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Task updated successfully!\nID: ${response.id}\nTitle: ${response.title}${formatResolvedDates(
+              [
+                { label: "Due", input: dueDateTime, value: taskBody.dueDateTime, dateOnly: true },
+                { label: "Start", input: startDateTime, value: taskBody.startDateTime, dateOnly: true },
+                { label: "Reminder", input: reminderDateTime, value: taskBody.reminderDateTime },
+              ],
+              timeZone,
+            )}${response.recurrence ? `\nRepeats: ${describeRecurrence(response.recurrence)}` : ""}`,
+          },
+        ],
+        structuredContent: { task: response },
+      }
+    } catch (error) {
+      return errorResult("updating task", error)
+    }
+  },
+)
+
+registerTool(
+  "delete-task",
+  {
+    description:
+      "Delete a task from a Microsoft Todo list. This will remove the task and all its checklist items (subtasks). The user is asked to confirm first. The task is kept in the local trash and can be restored with restore-from-trash (attachments are not kept).",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task to delete"),
+      ...confirmParam,
+    },
+    outputSchema: {
+      deleted: z.boolean(),
+      listId: z.string(),
+      taskId: z.string(),
+      trashEntryId: z.string().optional(),
+    },
+  },
+  async ({ listId: listRef, taskId: taskRef, confirm }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
         return {
           content: [
             {
               type: "text",
-              text: "No task lists found.",
+              text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
-      // Group by shared status
-      if (groupBy === "shared") {
-        const sharedLists = lists.filter((l) => l.isShared)
-        const personalLists = lists.filter((l) => !l.isShared)
-
-        let output = "📂 Microsoft To Do Lists - By Sharing Status\n"
-        output += "=".repeat(50) + "\n\n"
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
+
+      // Everything hanging off the task goes with it
+      const {
+        listName,
+        content: { task },
+      } = await snapshotForTrash(token, { kind: "task", listId, taskId })
+      const lost: string[] = []
+      if (task.checklistItems?.length) lost.push(`${task.checklistItems.length} checklist item(s)`)
+      if (task.linkedResources?.length) lost.push(`${task.linkedResources.length} linked resource(s)`)
+
+      // The trash keeps the task itself, not the content of its files
+      const confirmation = await confirmDestructiveAction(
+        `Delete the task "${task.title}"${lost.length > 0 ? ` along with ${lost.join(", ")}` : ""}? It is kept in the local trash${task.hasAttachments ? ", but its attachments cannot be restored" : ""}.`,
+        confirm,
+      )
+      if (!confirmation.confirmed) {
+        return notConfirmedResult(confirmation, { deleted: false, listId, taskId })
+      }
 
-        output += `👥 Shared Lists (${sharedLists.length})\n`
-        sharedLists.forEach((list) => {
-          const ownership = list.isOwner ? "Shared by you" : "Shared with you"
-          output += `   ├─ ${list.displayName} [${ownership}]\n`
-        })
+      // Make a DELETE request to the Microsoft Graph API
+      const url = `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}`
+      console.error(`Deleting task: ${url}`)
 
-        output += `\n🔒 Personal Lists (${personalLists.length})\n`
-        personalLists.forEach((list) => {
-          output += `   ├─ ${list.displayName}\n`
-        })
+      const entry = await deleteToTrash(token, url, { listId, listName }, { kind: "task", task })
+      recordOperation("delete-task", `Deleted task "${task.title}"`, [
+        { action: "delete", ref: { kind: "task", listId, taskId }, trashEntryId: entry.id },
+      ])
 
-        return { content: [{ type: "text", text: output }] }
+      // If we get here, the delete was successful (204 No Content)
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Task with ID: ${taskId} was successfully deleted from list: ${listId}. ${RESTORE_HINT} (trash entry ID: ${entry.id})`,
+          },
+        ],
+        structuredContent: { deleted: true, listId, taskId, trashEntryId: entry.id },
       }
+    } catch (error) {
+      return errorResult("deleting task", error)
+    }
+  },
+)
 
-      // Helper function to organize lists
-      const organizeLists = (lists: TaskList[]): { [category: string]: TaskList[] } => {
-        const organized: { [category: string]: TaskList[] } = {}
-
-        // Patterns for categorizing lists
-        const patterns = {
-          archived: /\(([^)]+)\s*-\s*Archived\)$/i,
-          archive: /^📦\s*Archive/i,
-          shopping: /^🛒/,
-          property: /^🏡/,
-          family: /^👪/,
-          seasonal: /^(🎄|🎉)/,
-          work: /^(Work|SBIR)/i,
-          travel: /^(🚗|Rangeley)/i,
-          reading: /^📰/,
+registerTool(
+  "move-task",
+  {
+    description:
+      "Move a task to another Microsoft Todo list. The task is copied with all of its properties, checklist items (including checked state), linked resources and attachments, and the original is deleted only after the copy has been verified. Note that the moved task gets a new ID.",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+    inputSchema: {
+      sourceListId: z.string().describe("ID or name of the list the task is currently in"),
+      taskId: z.string().describe("ID or name of the task to move"),
+      targetListId: z.string().describe("ID or name of the list to move the task to"),
+    },
+    outputSchema: {
+      task: taskSchema.describe("The task in its new list, with its new ID"),
+      previousTaskId: z.string(),
+      sourceListId: z.string(),
+      targetListId: z.string(),
+    },
+  },
+  async ({ sourceListId: sourceListRef, taskId: taskRef, targetListId: targetListRef }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
         }
+      }
 
-        lists.forEach((list) => {
-          // Check archived pattern
-          const archiveMatch = list.displayName.match(patterns.archived)
-          if (archiveMatch) {
-            const category = `📦 Archived - ${archiveMatch[1]}`
-            if (!organized[category]) organized[category] = []
-            organized[category].push(list)
-          }
-          // Check archive prefix
-          else if (patterns.archive.test(list.displayName)) {
-            if (!organized["📦 Archives"]) organized["📦 Archives"] = []
-            organized["📦 Archives"].push(list)
-          }
-          // Check shopping lists
-          else if (patterns.shopping.test(list.displayName)) {
-            if (!organized["🛒 Shopping Lists"]) organized["🛒 Shopping Lists"] = []
-            organized["🛒 Shopping Lists"].push(list)
-          }
-          // Check property lists
-          else if (patterns.property.test(list.displayName)) {
-            if (!organized["🏡 Properties"]) organized["🏡 Properties"] = []
-            organized["🏡 Properties"].push(list)
-          }
-          // Check family lists
-          else if (patterns.family.test(list.displayName)) {
-            if (!organized["👪 Family"]) organized["👪 Family"] = []
-            organized["👪 Family"].push(list)
-          }
-          // Check seasonal lists
-          else if (patterns.seasonal.test(list.displayName)) {
-            if (!organized["🎉 Seasonal & Events"]) organized["🎉 Seasonal & Events"] = []
-            organized["🎉 Seasonal & Events"].push(list)
-          }
-          // Check work lists
-          else if (patterns.work.test(list.displayName)) {
-            if (!organized["💼 Work"]) organized["💼 Work"] = []
-            organized["💼 Work"].push(list)
-          }
-          // Check travel lists
-          else if (patterns.travel.test(list.displayName)) {
-            if (!organized["🚗 Travel & Rangeley"]) organized["🚗 Travel & Rangeley"] = []
-            organized["🚗 Travel & Rangeley"].push(list)
-          }
-          // Check reading lists
-          else if (patterns.reading.test(list.displayName)) {
-            if (!organized["📚 Reading"]) organized["📚 Reading"] = []
-            organized["📚 Reading"].push(list)
-          }
-          // Special lists
-          else if (list.wellknownListName && list.wellknownListName !== "none") {
-            if (!organized["⭐ Special Lists"]) organized["⭐ Special Lists"] = []
-            organized["⭐ Special Lists"].push(list)
-          }
-          // Shared lists
-          else if (list.isShared) {
-            if (!organized["👥 Shared Lists"]) organized["👥 Shared Lists"] = []
-            organized["👥 Shared Lists"].push(list)
-          }
-          // Everything else
-          else {
-            if (!organized["📋 Other Lists"]) organized["📋 Other Lists"] = []
-            organized["📋 Other Lists"].push(list)
-          }
-        })
+      // Accept names as well as IDs
+      const sourceListId = await resolveListId(token, sourceListRef)
+      const taskId = await resolveTaskId(token, sourceListId, taskRef)
+      const targetListId = await resolveListId(token, targetListRef)
 
-        return organized
+      if (sourceListId === targetListId) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "The source and target lists are the same; nothing to move.",
+            },
+          ],
+          isError: true,
+        }
       }
 
-      // Default: organize by category
-      const organized = organizeLists(lists)
+      const copy = await moveTask(taskCopyClient(token), sourceListId, taskId, targetListId)
+      recordOperation("move-task", `Moved task "${copy.title}" to list ${targetListId}`, [
+        {
+          action: "move",
+          ref: { kind: "task", listId: targetListId, taskId: copy.id },
+          fromListId: sourceListId,
+          previousTaskId: taskId,
+        },
+      ])
 
-      let output = "📂 Microsoft To Do Lists - Organized View\n"
-      output += "=".repeat(50) + "\n\n"
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Task moved successfully!\nTitle: ${copy.title}\nNew ID: ${copy.id}\nList ID: ${targetListId}\n` +
+              `Checklist items: ${copy.checklistItems?.length ?? 0}, linked resources: ${copy.linkedResources?.length ?? 0}`,
+          },
+        ],
+        structuredContent: { task: copy, previousTaskId: taskId, sourceListId, targetListId },
+      }
+    } catch (error) {
+      return errorResult("moving task", error)
+    }
+  },
+)
 
-      // Sort categories for consistent display
-      const sortedCategories = Object.keys(organized).sort((a, b) => {
-        // Priority order for categories
-        const priority: { [key: string]: number } = {
-          "⭐ Special Lists": 1,
-          "👥 Shared Lists": 2,
-          "💼 Work": 3,
-          "👪 Family": 4,
-          "🏡 Properties": 5,
-          "🛒 Shopping Lists": 6,
-          "🚗 Travel & Rangeley": 7,
-          "🎉 Seasonal & Events": 8,
-          "📚 Reading": 9,
-          "📋 Other Lists": 10,
-          "📦 Archives": 11,
-        }
-
-        // Check if categories start with "📦 Archived -"
-        const aIsArchived = a.startsWith("📦 Archived -")
-        const bIsArchived = b.startsWith("📦 Archived -")
-
-        if (aIsArchived && !bIsArchived) return 1
-        if (!aIsArchived && bIsArchived) return -1
-        if (aIsArchived && bIsArchived) return a.localeCompare(b)
-
-        const aPriority = priority[a] || 999
-        const bPriority = priority[b] || 999
-
-        if (aPriority !== bPriority) return aPriority - bPriority
-        return a.localeCompare(b)
-      })
+registerTool(
+  "get-checklist-items",
+  {
+    description:
+      "Get checklist items (subtasks) for a specific task. Checklist items are smaller steps or components that belong to a parent task.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task"),
+    },
+    outputSchema: { taskId: z.string(), checklistItems: z.array(checklistItemSchema) },
+  },
+  async ({ listId: listRef, taskId: taskRef }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
 
-      sortedCategories.forEach((category) => {
-        const categoryLists = organized[category]
-        output += `${category} (${categoryLists.length})\n`
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
 
-        categoryLists.forEach((list, index) => {
-          const isLast = index === categoryLists.length - 1
-          const prefix = isLast ? "└─" : "├─"
+      // Fetch the task first to get its title; the title is only cosmetic, so a failure here is not fatal
+      const taskResponse = await makeGraphRequest<Task>(
+        `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}`,
+        token,
+      ).catch(() => null)
 
-          let listInfo = `${prefix} ${list.displayName}`
+      const taskTitle = taskResponse ? taskResponse.title : "Unknown Task"
 
-          // Add metadata
-          const metadata: string[] = []
-          if (list.wellknownListName === "defaultList") metadata.push("Default")
-          if (list.wellknownListName === "flaggedEmails") metadata.push("Flagged Emails")
-          if (list.isShared && list.isOwner) metadata.push("Shared by you")
-          if (list.isShared && !list.isOwner) metadata.push("Shared with you")
+      // Fetch the checklist items
+      const response = await makeGraphRequest<{ value: ChecklistItem[] }>(
+        `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}/checklistItems`,
+        token,
+      )
 
-          if (metadata.length > 0) {
-            listInfo += ` [${metadata.join(", ")}]`
-          }
+      const items = response.value || []
+      if (items.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No checklist items found for task "${taskTitle}" (ID: ${taskId})`,
+            },
+          ],
+          structuredContent: { taskId, checklistItems: [] },
+        }
+      }
 
-          output += `   ${listInfo}\n`
+      const formattedItems = items.map((item) => {
+        const status = item.isChecked ? "✓" : "○"
+        let itemInfo = `${status} ${item.displayName} (ID: ${item.id})`
 
-          if (!isLast) {
-            output += "   │\n"
-          }
-        })
+        // Add creation date if available
+        if (item.createdDateTime) {
+          const createdDate = new Date(item.createdDateTime).toLocaleString()
+          itemInfo += `\nCreated: ${createdDate}`
+        }
 
-        output += "\n"
+        return itemInfo
       })
 
-      // Add summary
-      const totalLists = Object.values(organized).reduce((sum, l) => sum + l.length, 0)
-      const totalCategories = Object.keys(organized).length
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Checklist items for task "${taskTitle}" (ID: ${taskId}):\n\n${formattedItems.join("\n\n")}`,
+          },
+        ],
+        structuredContent: { taskId, checklistItems: items },
+      }
+    } catch (error) {
+      return errorResult("fetching checklist items", error)
+    }
+  },
+)
 
-      output += "-".repeat(50) + "\n"
-      output += `Summary: ${totalLists} lists in ${totalCategories} categories\n`
+registerTool(
+  "create-checklist-item",
+  {
+    description:
+      "Create a new checklist item (subtask) for a task. Checklist items help break down a task into smaller, manageable steps.",
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task"),
+      displayName: z.string().describe("Text content of the checklist item"),
+      isChecked: z.boolean().optional().describe("Whether the item is checked off"),
+    },
+    outputSchema: { checklistItem: checklistItemSchema },
+  },
+  async ({ listId: listRef, taskId: taskRef, displayName, isChecked }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
 
-      if (includeIds) {
-        // Add a section with IDs
-        output += "\n\n📋 List IDs Reference:\n" + "-".repeat(50) + "\n"
-        lists.forEach((list) => {
-          output += `${list.displayName}: ${list.id}\n`
-        })
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
+
+      // Prepare the request body
+      const requestBody: any = {
+        displayName,
       }
 
-      return { content: [{ type: "text", text: output }] }
-    } catch (error) {
+      if (isChecked !== undefined) {
+        requestBody.isChecked = isChecked
+      }
+
+      // Make the API request to create the checklist item
+      const response = await makeGraphRequest<ChecklistItem>(
+        `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}/checklistItems`,
+        token,
+        "POST",
+        requestBody,
+      )
+      recordOperation("create-checklist-item", `Added checklist item "${response.displayName}"`, [
+        { action: "create", ref: { kind: "checklistItem", listId, taskId, itemId: response.id }, after: response },
+      ])
+
       return {
         content: [
           {
             type: "text",
-            text: `Error fetching organized task lists: ${error}`,
+            text: `Checklist item created successfully!\nContent: ${response.displayName}\nID: ${response.id}`,
           },
         ],
+        structuredContent: { checklistItem: response },
       }
+    } catch (error) {
+      return errorResult("creating checklist item", error)
     }
   },
 )
 
-server.tool(
-  "create-task-list",
-  "Create a new task list (top-level container) in Microsoft Todo to help organize your tasks into categories or projects.",
+registerTool(
+  "update-checklist-item",
   {
-    displayName: z.string().describe("Name of the new task list"),
+    description:
+      "Update an existing checklist item (subtask). Allows changing the text content or completion status of the subtask.",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task"),
+      checklistItemId: z.string().describe("ID of the checklist item to update"),
+      displayName: z.string().optional().describe("New text content of the checklist item"),
+      isChecked: z.boolean().optional().describe("Whether the item is checked off"),
+    },
+    outputSchema: { checklistItem: checklistItemSchema },
   },
-  async ({ displayName }) => {
+  async ({ listId: listRef, taskId: taskRef, checklistItemId, displayName, isChecked }) => {
     try {
       const token = await getAccessToken()
       if (!token) {
@@ -639,57 +3568,150 @@ server.tool(
               text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
-      // Prepare the request body
-      const requestBody = {
-        displayName,
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
+
+      // Prepare the update body, including only the fields that are provided
+      const requestBody: any = {}
+
+      if (displayName !== undefined) {
+        requestBody.displayName = displayName
       }
 
-      // Make the API request to create the task list
-      const response = await makeGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token, "POST", requestBody)
+      if (isChecked !== undefined) {
+        requestBody.isChecked = isChecked
+      }
 
-      if (!response) {
+      // Make sure we have at least one property to update
+      if (Object.keys(requestBody).length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: `Failed to create task list: ${displayName}`,
+              text: "No properties provided for update. Please specify either displayName or isChecked.",
             },
           ],
+          isError: true,
         }
       }
 
+      // Make the API request to update the checklist item
+      const { response, change } = await patchWithJournal<ChecklistItem>(
+        token,
+        { kind: "checklistItem", listId, taskId, itemId: checklistItemId },
+        requestBody,
+      )
+      recordOperation("update-checklist-item", `Updated checklist item "${response.displayName}"`, [change])
+
+      const statusText = response.isChecked ? "Checked" : "Not checked"
+
       return {
         content: [
           {
             type: "text",
-            text: `Task list created successfully!\nName: ${response.displayName}\nID: ${response.id}`,
+            text: `Checklist item updated successfully!\nContent: ${response.displayName}\nStatus: ${statusText}`,
           },
         ],
+        structuredContent: { checklistItem: response },
       }
     } catch (error) {
+      return errorResult("updating checklist item", error)
+    }
+  },
+)
+
+registerTool(
+  "delete-checklist-item",
+  {
+    description:
+      "Delete a checklist item (subtask) from a task. This removes just the specific subtask, not the parent task. The user is asked to confirm first. The item is kept in the local trash and can be restored with restore-from-trash.",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task"),
+      checklistItemId: z.string().describe("ID of the checklist item to delete"),
+      ...confirmParam,
+    },
+    outputSchema: {
+      deleted: z.boolean(),
+      taskId: z.string(),
+      checklistItemId: z.string(),
+      trashEntryId: z.string().optional(),
+    },
+  },
+  async ({ listId: listRef, taskId: taskRef, checklistItemId, confirm }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
+        }
+      }
+
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
+
+      const ref = { kind: "checklistItem" as const, listId, taskId, itemId: checklistItemId }
+      const { listName, content } = await snapshotForTrash(token, ref)
+      const item = content.checklistItem
+      const confirmation = await confirmDestructiveAction(
+        `Delete the checklist item "${item.displayName}"${item.isChecked ? " (checked)" : ""}? It is kept in the local trash.`,
+        confirm,
+      )
+      if (!confirmation.confirmed) {
+        return notConfirmedResult(confirmation, { deleted: false, taskId, checklistItemId })
+      }
+
+      // Make a DELETE request to the Microsoft Graph API
+      const url = `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}/checklistItems/${checklistItemId}`
+      console.error(`Deleting checklist item: ${url}`)
+
+      const entry = await deleteToTrash(token, url, { listId, listName }, content)
+      recordOperation("delete-checklist-item", `Deleted checklist item "${item.displayName}"`, [
+        { action: "delete", ref, trashEntryId: entry.id },
+      ])
+
+      // If we get here, the delete was successful (204 No Content)
       return {
         content: [
           {
             type: "text",
-            text: `Error creating task list: ${error}`,
+            text: `Checklist item with ID: ${checklistItemId} was successfully deleted from task: ${taskId}. ${RESTORE_HINT} (trash entry ID: ${entry.id})`,
           },
         ],
+        structuredContent: { deleted: true, taskId, checklistItemId, trashEntryId: entry.id },
       }
+    } catch (error) {
+      return errorResult("deleting checklist item", error)
     }
   },
 )
 
-server.tool(
-  "update-task-list",
-  "Update the name of an existing task list (top-level container) in Microsoft Todo.",
+registerTool(
+  "get-linked-resources",
   {
-    listId: z.string().describe("ID of the task list to update"),
-    displayName: z.string().describe("New name for the task list"),
+    description:
+      "Get the linked resources of a task. A linked resource points from the task back to the item it came from, such as a pull request, an issue, a ticket or an email.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task"),
+    },
+    outputSchema: { taskId: z.string(), linkedResources: z.array(linkedResourceSchema) },
   },
-  async ({ listId, displayName }) => {
+  async ({ listId: listRef, taskId: taskRef }) => {
     try {
       const token = await getAccessToken()
       if (!token) {
@@ -700,30 +3722,29 @@ server.tool(
               text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
-      // Prepare the request body
-      const requestBody = {
-        displayName,
-      }
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
 
-      // Make the API request to update the task list
-      const response = await makeGraphRequest<TaskList>(
-        `${MS_GRAPH_BASE}/me/todo/lists/${listId}`,
+      const response = await makeGraphRequest<{ value: LinkedResource[] }>(
+        `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}/linkedResources`,
         token,
-        "PATCH",
-        requestBody,
       )
 
-      if (!response) {
+      const resources = response.value || []
+      if (resources.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: `Failed to update task list with ID: ${listId}`,
+              text: `No linked resources found for task with ID: ${taskId}`,
             },
           ],
+          structuredContent: { taskId, linkedResources: [] },
         }
       }
 
@@ -731,30 +3752,31 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Task list updated successfully!\nNew name: ${response.displayName}`,
+            text: `Linked resources for task ${taskId}:\n\n${resources.map(formatLinkedResource).join("\n\n")}`,
           },
         ],
+        structuredContent: { taskId, linkedResources: resources },
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error updating task list: ${error}`,
-          },
-        ],
-      }
+      return errorResult("fetching linked resources", error)
     }
   },
 )
 
-server.tool(
-  "delete-task-list",
-  "Delete a task list (top-level container) from Microsoft Todo. This will remove the list and all tasks within it.",
+registerTool(
+  "create-linked-resource",
   {
-    listId: z.string().describe("ID of the task list to delete"),
+    description:
+      "Link a task to an item in another app, such as a GitHub issue or pull request, a ticket or an email, so the task points straight back to where it came from.",
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task"),
+      ...linkedResourceFields,
+    },
+    outputSchema: { linkedResource: linkedResourceSchema },
   },
-  async ({ listId }) => {
+  async ({ listId: listRef, taskId: taskRef, webUrl, applicationName, displayName, externalId }) => {
     try {
       const token = await getAccessToken()
       if (!token) {
@@ -765,51 +3787,60 @@ server.tool(
               text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
-      // Make a DELETE request to the Microsoft Graph API
-      const url = `${MS_GRAPH_BASE}/me/todo/lists/${listId}`
-      console.error(`Deleting task list: ${url}`)
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
 
-      // The DELETE method doesn't return a response body, so we expect null
-      await makeGraphRequest<null>(url, token, "DELETE")
+      const requestBody: Omit<LinkedResource, "id"> = { applicationName, displayName }
+      if (webUrl !== undefined) requestBody.webUrl = webUrl
+      if (externalId !== undefined) requestBody.externalId = externalId
+
+      const response = await makeGraphRequest<LinkedResource>(
+        `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}/linkedResources`,
+        token,
+        "POST",
+        requestBody,
+      )
+      recordOperation("create-linked-resource", `Linked task ${taskId} to "${response.displayName}"`, [
+        { action: "create", ref: { kind: "linkedResource", listId, taskId, itemId: response.id }, after: response },
+      ])
 
-      // If we get here, the delete was successful (204 No Content)
       return {
         content: [
           {
             type: "text",
-            text: `Task list with ID: ${listId} was successfully deleted.`,
+            text: `Linked resource created successfully!\n${formatLinkedResource(response)}`,
           },
         ],
+        structuredContent: { linkedResource: response },
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error deleting task list: ${error}`,
-          },
-        ],
-      }
+      return errorResult("creating linked resource", error)
     }
   },
 )
 
-server.tool(
-  "get-tasks",
-  "Get tasks from a specific Microsoft Todo list. These are the main todo items that can contain checklist items (subtasks).",
+registerTool(
+  "update-linked-resource",
   {
-    listId: z.string().describe("ID of the task list"),
-    filter: z.string().optional().describe("OData $filter query (e.g., 'status eq \\'completed\\'')"),
-    select: z.string().optional().describe("Comma-separated list of properties to include (e.g., 'id,title,status')"),
-    orderby: z.string().optional().describe("Property to sort by (e.g., 'createdDateTime desc')"),
-    top: z.number().optional().describe("Maximum number of tasks to retrieve"),
-    skip: z.number().optional().describe("Number of tasks to skip"),
-    count: z.boolean().optional().describe("Whether to include a count of tasks"),
-  },
-  async ({ listId, filter, select, orderby, top, skip, count }) => {
+    description: "Update a linked resource of a task, for example to change its URL or display name.",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task"),
+      linkedResourceId: z.string().describe("ID of the linked resource to update"),
+      webUrl: z.string().url().optional().describe("New link back to the item"),
+      applicationName: z.string().optional().describe("New name of the app the item lives in"),
+      displayName: z.string().optional().describe("New title shown for the link"),
+      externalId: z.string().optional().describe("New ID of the item in the source app"),
+    },
+    outputSchema: { linkedResource: linkedResourceSchema },
+  },
+  async ({ listId: listRef, taskId: taskRef, linkedResourceId, webUrl, applicationName, displayName, externalId }) => {
     try {
       const token = await getAccessToken()
       if (!token) {
@@ -820,146 +3851,127 @@ server.tool(
               text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
-      // Build the query parameters
-      const queryParams = new URLSearchParams()
-
-      if (filter) queryParams.append("$filter", filter)
-      if (select) queryParams.append("$select", select)
-      if (orderby) queryParams.append("$orderby", orderby)
-      if (top !== undefined) queryParams.append("$top", top.toString())
-      if (skip !== undefined) queryParams.append("$skip", skip.toString())
-      if (count !== undefined) queryParams.append("$count", count.toString())
-
-      // Construct the URL with query parameters
-      const queryString = queryParams.toString()
-      const url = `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks${queryString ? "?" + queryString : ""}`
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
 
-      console.error(`Making request to: ${url}`)
-
-      const response = await makeGraphRequest<{ value: Task[]; "@odata.count"?: number }>(url, token)
+      // Prepare the update body, including only the fields that are provided
+      const requestBody: Partial<Omit<LinkedResource, "id">> = {}
+      if (webUrl !== undefined) requestBody.webUrl = webUrl
+      if (applicationName !== undefined) requestBody.applicationName = applicationName
+      if (displayName !== undefined) requestBody.displayName = displayName
+      if (externalId !== undefined) requestBody.externalId = externalId
 
-      if (!response) {
+      // Make sure we have at least one property to update
+      if (Object.keys(requestBody).length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: `Failed to retrieve tasks for list: ${listId}`,
+              text: "No properties provided for update. Please specify webUrl, applicationName, displayName or externalId.",
             },
           ],
+          isError: true,
         }
       }
 
-      const tasks = response.value || []
-      if (tasks.length === 0) {
+      const { response, change } = await patchWithJournal<LinkedResource>(
+        token,
+        { kind: "linkedResource", listId, taskId, itemId: linkedResourceId },
+        requestBody,
+      )
+      recordOperation("update-linked-resource", `Updated linked resource "${response.displayName}"`, [change])
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Linked resource updated successfully!\n${formatLinkedResource(response)}`,
+          },
+        ],
+        structuredContent: { linkedResource: response },
+      }
+    } catch (error) {
+      return errorResult("updating linked resource", error)
+    }
+  },
+)
+
+registerTool(
+  "delete-linked-resource",
+  {
+    description:
+      "Delete a linked resource from a task. This removes just the link, not the task or the item it points to. The link is kept in the local trash and can be restored with restore-from-trash.",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task"),
+      linkedResourceId: z.string().describe("ID of the linked resource to delete"),
+    },
+    outputSchema: {
+      deleted: z.boolean(),
+      taskId: z.string(),
+      linkedResourceId: z.string(),
+      trashEntryId: z.string().optional(),
+    },
+  },
+  async ({ listId: listRef, taskId: taskRef, linkedResourceId }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
         return {
           content: [
             {
               type: "text",
-              text: `No tasks found in list with ID: ${listId}`,
+              text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
-      // Format the tasks based on available properties
-      const formattedTasks = tasks.map((task) => {
-        // Default format
-        let taskInfo = `ID: ${task.id}\nTitle: ${task.title}`
-
-        // Add status if available
-        if (task.status) {
-          const status = task.status === "completed" ? "✓" : "○"
-          taskInfo = `${status} ${taskInfo}`
-        }
-
-        // Add due date if available
-        if (task.dueDateTime) {
-          taskInfo += `\nDue: ${new Date(task.dueDateTime.dateTime).toLocaleDateString()}`
-        }
-
-        // Add importance if available
-        if (task.importance) {
-          taskInfo += `\nImportance: ${task.importance}`
-        }
-
-        // Add categories if available
-        if (task.categories && task.categories.length > 0) {
-          taskInfo += `\nCategories: ${task.categories.join(", ")}`
-        }
-
-        // Add body content if available and not empty
-        if (task.body && task.body.content && task.body.content.trim() !== "") {
-          const previewLength = 50
-          const contentPreview =
-            task.body.content.length > previewLength
-              ? task.body.content.substring(0, previewLength) + "..."
-              : task.body.content
-          taskInfo += `\nDescription: ${contentPreview}`
-        }
-
-        return `${taskInfo}\n---`
-      })
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
 
-      // Add count information if requested and available
-      let countInfo = ""
-      if (count && response["@odata.count"] !== undefined) {
-        countInfo = `Total count: ${response["@odata.count"]}\n\n`
-      }
+      const ref = { kind: "linkedResource" as const, listId, taskId, itemId: linkedResourceId }
+      const entry = await trashItem(token, ref)
+      recordOperation("delete-linked-resource", `Deleted linked resource "${describeTrashEntry(entry).name}"`, [
+        { action: "delete", ref, trashEntryId: entry.id },
+      ])
 
       return {
         content: [
           {
             type: "text",
-            text: `Tasks in list ${listId}:\n\n${countInfo}${formattedTasks.join("\n")}`,
+            text: `Linked resource with ID: ${linkedResourceId} was successfully deleted from task: ${taskId}. ${RESTORE_HINT} (trash entry ID: ${entry.id})`,
           },
         ],
+        structuredContent: { deleted: true, taskId, linkedResourceId, trashEntryId: entry.id },
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error fetching tasks: ${error}`,
-          },
-        ],
-      }
+      return errorResult("deleting linked resource", error)
     }
   },
 )
 
-server.tool(
-  "create-task",
-  "Create a new task in a specific Microsoft Todo list. A task is the main todo item that can have a title, description, due date, and other properties.",
+registerTool(
+  "get-attachments",
   {
-    listId: z.string().describe("ID of the task list"),
-    title: z.string().describe("Title of the task"),
-    body: z.string().optional().describe("Description or body content of the task"),
-    dueDateTime: z.string().optional().describe("Due date in ISO format (e.g., 2023-12-31T23:59:59Z)"),
-    startDateTime: z.string().optional().describe("Start date in ISO format (e.g., 2023-12-31T23:59:59Z)"),
-    importance: z.enum(["low", "normal", "high"]).optional().describe("Task importance"),
-    isReminderOn: z.boolean().optional().describe("Whether to enable reminder for this task"),
-    reminderDateTime: z.string().optional().describe("Reminder date and time in ISO format"),
-    status: z
-      .enum(["notStarted", "inProgress", "completed", "waitingOnOthers", "deferred"])
-      .optional()
-      .describe("Status of the task"),
-    categories: z.array(z.string()).optional().describe("Categories associated with the task"),
+    description:
+      "Get the file attachments of a task, with their names, types and sizes. Use download-attachment to fetch the content.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task"),
+    },
+    outputSchema: { taskId: z.string(), attachments: z.array(attachmentSchema) },
   },
-  async ({
-    listId,
-    title,
-    body,
-    dueDateTime,
-    startDateTime,
-    importance,
-    isReminderOn,
-    reminderDateTime,
-    status,
-    categories,
-  }) => {
+  async ({ listId: listRef, taskId: taskRef }) => {
     try {
       const token = await getAccessToken()
       if (!token) {
@@ -970,72 +3982,146 @@ server.tool(
               text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
-      // Construct the task body with all supported properties
-      const taskBody: any = { title }
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
 
-      // Add optional properties if provided
-      if (body) {
-        taskBody.body = {
-          content: body,
-          contentType: "text",
+      const attachments = await listTaskAttachments(token, listId, taskId)
+      if (attachments.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No attachments found for task with ID: ${taskId}`,
+            },
+          ],
+          structuredContent: { taskId, attachments: [] },
         }
       }
 
-      if (dueDateTime) {
-        taskBody.dueDateTime = {
-          dateTime: dueDateTime,
-          timeZone: "UTC",
-        }
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Attachments for task ${taskId}:\n\n${attachments.map(formatAttachment).join("\n")}`,
+          },
+        ],
+        structuredContent: { taskId, attachments },
       }
+    } catch (error) {
+      return errorResult("fetching attachments", error)
+    }
+  },
+)
 
-      if (startDateTime) {
-        taskBody.startDateTime = {
-          dateTime: startDateTime,
-          timeZone: "UTC",
+registerTool(
+  "download-attachment",
+  {
+    description:
+      "Download a file attachment of a task. Returns the file as an embedded resource; files over the inline limit (1 MB by default) are refused.",
+    annotations: { readOnlyHint: true },
+    localFiles: {
+      args: ["savePath", "overwrite"],
+      description:
+        "Download a file attachment of a task. Returns the file as an embedded resource, or saves it to a local path when savePath is given. Files over the inline limit (1 MB by default) need savePath.",
+      // Writing to savePath changes the local file system, and overwrite can replace an existing file
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task"),
+      attachmentId: z.string().describe("ID of the attachment to download"),
+      savePath: z.string().optional().describe("Save to this local file or directory instead of returning the content"),
+      overwrite: z.boolean().optional().describe("Replace the file at savePath if it already exists (default: false)"),
+    },
+    outputSchema: {
+      attachment: attachmentSchema,
+      savedTo: z.string().optional().describe("Local file the attachment was written to, when savePath was given"),
+    },
+  },
+  async ({ listId: listRef, taskId: taskRef, attachmentId, savePath, overwrite }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to authenticate with Microsoft API",
+            },
+          ],
+          isError: true,
         }
       }
 
-      if (importance) {
-        taskBody.importance = importance
-      }
-
-      if (isReminderOn !== undefined) {
-        taskBody.isReminderOn = isReminderOn
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
+
+      const attachmentUrl = `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}/attachments/${attachmentId}`
+      const attachment = await makeGraphRequest<TaskAttachment & { contentBytes?: string }>(attachmentUrl, token)
+
+      // The attachment usually comes with its content; fall back to the raw /$value stream
+      const content = attachment.contentBytes
+        ? Buffer.from(attachment.contentBytes, "base64")
+        : await downloadGraphContent(`${attachmentUrl}/$value`, token)
+      const contentType = attachment.contentType || guessContentType(attachment.name)
+      // Everything but the content, which travels as a resource or a file
+      const attachmentInfo = {
+        id: attachment.id,
+        name: attachment.name,
+        contentType,
+        size: content.length,
+        lastModifiedDateTime: attachment.lastModifiedDateTime,
       }
 
-      if (reminderDateTime) {
-        taskBody.reminderDateTime = {
-          dateTime: reminderDateTime,
-          timeZone: "UTC",
+      if (savePath) {
+        let target = resolveLocalPath(savePath)
+        if (existsSync(target) && statSync(target).isDirectory()) {
+          target = resolveLocalPath(join(target, basename(attachment.name)))
         }
-      }
 
-      if (status) {
-        taskBody.status = status
-      }
+        if (existsSync(target) && !overwrite) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `File already exists: ${target}. Pass overwrite: true to replace it.`,
+              },
+            ],
+            isError: true,
+          }
+        }
 
-      if (categories && categories.length > 0) {
-        taskBody.categories = categories
+        await writeFile(target, content)
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Attachment saved!\nFile: ${target}\nSize: ${formatFileSize(content.length)}`,
+            },
+          ],
+          structuredContent: { attachment: attachmentInfo, savedTo: target },
+        }
       }
 
-      const response = await makeGraphRequest<Task>(
-        `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks`,
-        token,
-        "POST",
-        taskBody,
-      )
-
-      if (!response) {
+      if (content.length > INLINE_DOWNLOAD_LIMIT) {
         return {
           content: [
             {
               type: "text",
-              text: `Failed to create task in list: ${listId}`,
+              text:
+                `"${attachment.name}" is ${formatFileSize(content.length)}, more than the ${formatFileSize(INLINE_DOWNLOAD_LIMIT)} ` +
+                (currentSession().localFiles
+                  ? "that can be returned inline. Pass savePath to save it to a file instead."
+                  : "that can be returned inline, and saving to a file is not available in this session."),
             },
           ],
+          isError: true,
         }
       }
 
@@ -1043,244 +4129,267 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Task created successfully!\nID: ${response.id}\nTitle: ${response.title}`,
+            text: `Attachment "${attachment.name}" (${formatFileSize(content.length)}, ${contentType})`,
           },
-        ],
-      }
-    } catch (error) {
-      return {
-        content: [
           {
-            type: "text",
-            text: `Error creating task: ${error}`,
+            type: "resource",
+            resource: {
+              uri: `todo://lists/${listId}/tasks/${taskId}/attachments/${attachmentId}`,
+              mimeType: contentType,
+              blob: content.toString("base64"),
+            },
           },
         ],
+        structuredContent: { attachment: attachmentInfo },
       }
+    } catch (error) {
+      return errorResult("downloading attachment", error)
     }
   },
 )
 
-server.tool(
-  "update-task",
-  "Update an existing task in Microsoft Todo. Allows changing any properties of the task including title, due date, importance, etc.",
+registerTool(
+  "upload-attachment",
   {
-    listId: z.string().describe("ID of the task list"),
-    taskId: z.string().describe("ID of the task to update"),
-    title: z.string().optional().describe("New title of the task"),
-    body: z.string().optional().describe("New description or body content of the task"),
-    dueDateTime: z.string().optional().describe("New due date in ISO format (e.g., 2023-12-31T23:59:59Z)"),
-    startDateTime: z.string().optional().describe("New start date in ISO format (e.g., 2023-12-31T23:59:59Z)"),
-    importance: z.enum(["low", "normal", "high"]).optional().describe("New task importance"),
-    isReminderOn: z.boolean().optional().describe("Whether to enable reminder for this task"),
-    reminderDateTime: z.string().optional().describe("New reminder date and time in ISO format"),
-    status: z
-      .enum(["notStarted", "inProgress", "completed", "waitingOnOthers", "deferred"])
-      .optional()
-      .describe("New status of the task"),
-    categories: z.array(z.string()).optional().describe("New categories associated with the task"),
+    description:
+      "Attach a file to a task from base64 content. Files over 3 MB are uploaded in chunks through an upload session; To Do allows up to 25 MB per file.",
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    localFiles: {
+      args: ["filePath"],
+      description:
+        "Attach a file to a task, either from a local path or from base64 content. Files over 3 MB are uploaded in chunks through an upload session; To Do allows up to 25 MB per file.",
+    },
+    inputSchema: {
+      listId: z.string().describe("ID or name of the task list"),
+      taskId: z.string().describe("ID or name of the task"),
+      filePath: z.string().optional().describe("Local file to upload"),
+      contentBase64: z.string().optional().describe("File content as base64, when not uploading from filePath"),
+      name: z
+        .string()
+        .optional()
+        .describe("File name shown in To Do (default: the name of filePath; required with contentBase64)"),
+      contentType: z.string().optional().describe("MIME type of the file (default: guessed from the file name)"),
+    },
+    outputSchema: {
+      attachmentId: z.string().optional(),
+      name: z.string(),
+      size: z.number(),
+      uploadMethod: z.enum(["inline", "upload session"]),
+    },
   },
-  async ({
-    listId,
-    taskId,
-    title,
-    body,
-    dueDateTime,
-    startDateTime,
-    importance,
-    isReminderOn,
-    reminderDateTime,
-    status,
-    categories,
-  }) => {
+  async ({ listId: listRef, taskId: taskRef, filePath, contentBase64, name, contentType }) => {
     try {
-      const token = await getAccessToken()
-      if (!token) {
+      // Exactly one source of content, and a name to show for it
+      if ((filePath === undefined) === (contentBase64 === undefined)) {
         return {
           content: [
             {
               type: "text",
-              text: "Failed to authenticate with Microsoft API",
+              text: "Provide either filePath or contentBase64, but not both.",
             },
           ],
+          isError: true,
         }
       }
 
-      // Construct the task update body with all provided properties
-      const taskBody: any = {}
-
-      // Add optional properties if provided
-      if (title !== undefined) {
-        taskBody.title = title
-      }
-
-      if (body !== undefined) {
-        taskBody.body = {
-          content: body,
-          contentType: "text",
-        }
-      }
-
-      if (dueDateTime !== undefined) {
-        if (dueDateTime === "") {
-          // Remove the due date by setting it to null
-          taskBody.dueDateTime = null
-        } else {
-          taskBody.dueDateTime = {
-            dateTime: dueDateTime,
-            timeZone: "UTC",
-          }
-        }
-      }
-
-      if (startDateTime !== undefined) {
-        if (startDateTime === "") {
-          // Remove the start date by setting it to null
-          taskBody.startDateTime = null
-        } else {
-          taskBody.startDateTime = {
-            dateTime: startDateTime,
-            timeZone: "UTC",
-          }
-        }
-      }
-
-      if (importance !== undefined) {
-        taskBody.importance = importance
-      }
-
-      if (isReminderOn !== undefined) {
-        taskBody.isReminderOn = isReminderOn
-      }
-
-      if (reminderDateTime !== undefined) {
-        if (reminderDateTime === "") {
-          // Remove the reminder date by setting it to null
-          taskBody.reminderDateTime = null
-        } else {
-          taskBody.reminderDateTime = {
-            dateTime: reminderDateTime,
-            timeZone: "UTC",
-          }
+      const fileName = name || (filePath ? basename(filePath) : undefined)
+      if (!fileName) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "A name is required when uploading contentBase64.",
+            },
+          ],
+          isError: true,
         }
       }
 
-      if (status !== undefined) {
-        taskBody.status = status
-      }
-
-      if (categories !== undefined) {
-        taskBody.categories = categories
-      }
-
-      // Make sure we have at least one property to update
-      if (Object.keys(taskBody).length === 0) {
+      const content = filePath ? await readFile(resolveLocalPath(filePath)) : Buffer.from(contentBase64!, "base64")
+      if (content.length > MAX_ATTACHMENT_SIZE) {
         return {
           content: [
             {
               type: "text",
-              text: "No properties provided for update. Please specify at least one property to change.",
+              text: `${fileName} is ${formatFileSize(content.length)}; To Do attachments are limited to ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`,
             },
           ],
+          isError: true,
         }
       }
 
-      const response = await makeGraphRequest<Task>(
-        `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}`,
-        token,
-        "PATCH",
-        taskBody,
-      )
-
-      if (!response) {
+      const token = await getAccessToken()
+      if (!token) {
         return {
           content: [
             {
               type: "text",
-              text: `Failed to update task with ID: ${taskId} in list: ${listId}`,
+              text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
-      return {
-        content: [
+      // Accept names as well as IDs
+      const listId = await resolveListId(token, listRef)
+      const taskId = await resolveTaskId(token, listId, taskRef)
+
+      const attachmentId = await uploadTaskAttachment(
+        token,
+        listId,
+        taskId,
+        fileName,
+        content,
+        contentType || guessContentType(fileName),
+      )
+
+      const method = content.length > INLINE_ATTACHMENT_LIMIT ? "upload session" : "inline"
+      if (attachmentId) {
+        recordOperation("upload-attachment", `Attached "${fileName}" to task ${taskId}`, [
           {
-            type: "text",
-            text: `Task updated successfully!\nID: ${response.id}\nTitle: ${response.title}`,
+            action: "create",
+            ref: { kind: "attachment", listId, taskId, itemId: attachmentId },
+            after: { id: attachmentId, name: fileName, size: content.length },
           },
-        ],
+        ])
       }
-    } catch (error) {
       return {
         content: [
           {
             type: "text",
-            text: `Error updating task: ${error}`,
+            text: `Attachment uploaded successfully!\nFile: ${fileName}\nSize: ${formatFileSize(content.length)} (${method})${attachmentId ? `\nID: ${attachmentId}` : ""}`,
           },
         ],
+        structuredContent: { attachmentId, name: fileName, size: content.length, uploadMethod: method },
       }
+    } catch (error) {
+      return errorResult("uploading attachment", error)
     }
   },
 )
 
-server.tool(
-  "delete-task",
-  "Delete a task from a Microsoft Todo list. This will remove the task and all its checklist items (subtasks).",
+// What a trash entry is called in listings: the deleted item's name and where it lived
+function describeTrashEntry(entry: TrashEntry): { name: string; location: string } {
+  switch (entry.kind) {
+    case "list":
+      return { name: entry.list.displayName, location: `${entry.tasks.length} task(s)` }
+    case "task":
+      return { name: entry.task.title, location: `in list "${entry.listName}"` }
+    case "checklistItem":
+      return { name: entry.checklistItem.displayName, location: `on task "${entry.taskTitle}" in "${entry.listName}"` }
+    case "linkedResource":
+      return {
+        name: entry.linkedResource.displayName || entry.linkedResource.webUrl || entry.linkedResource.id,
+        location: `on task "${entry.taskTitle}" in "${entry.listName}"`,
+      }
+  }
+}
+
+const TRASH_KINDS = ["list", "task", "checklistItem", "linkedResource"] as const
+
+registerTool(
+  "list-trash",
   {
-    listId: z.string().describe("ID of the task list"),
-    taskId: z.string().describe("ID of the task to delete"),
+    description:
+      "List the deleted task lists, tasks, checklist items and linked resources kept in the local trash, newest first. Use restore-from-trash with an entry ID to bring one back.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      kind: z.enum(TRASH_KINDS).optional().describe("Only list entries of this kind"),
+    },
+    outputSchema: {
+      entries: z.array(
+        z.object({
+          id: z.string(),
+          kind: z.enum(TRASH_KINDS),
+          name: z.string(),
+          deletedAt: z.string(),
+          listId: z.string(),
+          listName: z.string(),
+          taskId: z.string().optional(),
+          taskTitle: z.string().optional(),
+          taskCount: z.number().optional(),
+        }),
+      ),
+      trashFile: z.string(),
+    },
   },
-  async ({ listId, taskId }) => {
+  async ({ kind }) => {
     try {
+      // The trash is local, so it can be read without signing in; times are shown in UTC then
       const token = await getAccessToken()
-      if (!token) {
+      const timeZone = token ? await getUserTimeZone(token) : UTC_TIME_ZONE
+
+      const entries = trashStore.getEntries().filter((entry) => !kind || entry.kind === kind)
+      const summaries = entries.map((entry) => ({
+        id: entry.id,
+        kind: entry.kind,
+        name: describeTrashEntry(entry).name,
+        deletedAt: entry.deletedAt,
+        listId: entry.listId,
+        listName: entry.listName,
+        taskId: entry.kind === "checklistItem" || entry.kind === "linkedResource" ? entry.taskId : undefined,
+        taskTitle: entry.kind === "checklistItem" || entry.kind === "linkedResource" ? entry.taskTitle : undefined,
+        taskCount: entry.kind === "list" ? entry.tasks.length : undefined,
+      }))
+
+      if (entries.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: "Failed to authenticate with Microsoft API",
+              text: kind ? `The trash holds no ${kind} entries.` : "The trash is empty.",
             },
           ],
+          structuredContent: { entries: summaries, trashFile: trashStore.filePath },
         }
       }
 
-      // Make a DELETE request to the Microsoft Graph API
-      const url = `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}`
-      console.error(`Deleting task: ${url}`)
-
-      // The DELETE method doesn't return a response body, so we expect null
-      await makeGraphRequest<null>(url, token, "DELETE")
+      let output = `Trash (${entries.length} ${entries.length === 1 ? "entry" : "entries"}):\n\n`
+      for (const entry of entries) {
+        const { name, location } = describeTrashEntry(entry)
+        output += `- [${entry.kind}] ${name} (${location})\n`
+        output += `  Deleted: ${formatInstant(new Date(entry.deletedAt), timeZone)} | Entry ID: ${entry.id}\n`
+      }
 
-      // If we get here, the delete was successful (204 No Content)
       return {
         content: [
           {
             type: "text",
-            text: `Task with ID: ${taskId} was successfully deleted from list: ${listId}`,
+            text: output,
           },
         ],
+        structuredContent: { entries: summaries, trashFile: trashStore.filePath },
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error deleting task: ${error}`,
-          },
-        ],
-      }
+      return errorResult("reading the trash", error)
     }
   },
 )
 
-server.tool(
-  "get-checklist-items",
-  "Get checklist items (subtasks) for a specific task. Checklist items are smaller steps or components that belong to a parent task.",
+registerTool(
+  "restore-from-trash",
   {
-    listId: z.string().describe("ID of the task list"),
-    taskId: z.string().describe("ID of the task"),
+    description:
+      "Restore a deleted item from the local trash. A list is recreated as a new list with all of its tasks, checklist items and linked resources; a task goes back to its list (or targetListId) with its checklist items and linked resources; a checklist item or linked resource goes back to its task. Restored items get new IDs, and attachment contents are not kept in the trash.",
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    inputSchema: {
+      entryId: z.string().describe("ID of the trash entry, from list-trash"),
+      targetListId: z
+        .string()
+        .optional()
+        .describe("For a task: ID or name of the list to restore it into, instead of the list it was deleted from"),
+    },
+    outputSchema: {
+      entryId: z.string(),
+      kind: z.enum(TRASH_KINDS),
+      listId: z.string().describe("The list the item was restored into (the new list for a restored list)"),
+      taskId: z.string().optional().describe("The restored task, or the task a checklist item or link was added to"),
+      restoredId: z.string().describe("New ID of the restored item"),
+      taskCount: z.number().optional(),
+    },
   },
-  async ({ listId, taskId }) => {
+  async ({ entryId, targetListId: targetListRef }) => {
     try {
       const token = await getAccessToken()
       if (!token) {
@@ -1291,163 +4400,278 @@ server.tool(
               text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
-      // Fetch the task first to get its title
-      const taskResponse = await makeGraphRequest<Task>(
-        `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}`,
-        token,
-      )
-
-      const taskTitle = taskResponse ? taskResponse.title : "Unknown Task"
-
-      // Fetch the checklist items
-      const response = await makeGraphRequest<{ value: ChecklistItem[] }>(
-        `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}/checklistItems`,
-        token,
-      )
-
-      if (!response) {
+      const entry = trashStore.getEntry(entryId)
+      if (!entry) {
         return {
           content: [
             {
               type: "text",
-              text: `Failed to retrieve checklist items for task: ${taskId}`,
+              text: `No trash entry with ID ${entryId}. Use list-trash to see what can be restored.`,
             },
           ],
+          isError: true,
         }
       }
 
-      const items = response.value || []
-      if (items.length === 0) {
+      if (targetListRef && entry.kind !== "task") {
         return {
           content: [
             {
               type: "text",
-              text: `No checklist items found for task "${taskTitle}" (ID: ${taskId})`,
+              text: "targetListId only applies to deleted tasks.",
             },
           ],
+          isError: true,
         }
       }
 
-      const formattedItems = items.map((item) => {
-        const status = item.isChecked ? "✓" : "○"
-        let itemInfo = `${status} ${item.displayName} (ID: ${item.id})`
-
-        // Add creation date if available
-        if (item.createdDateTime) {
-          const createdDate = new Date(item.createdDateTime).toLocaleString()
-          itemInfo += `\nCreated: ${createdDate}`
-        }
-
-        return itemInfo
-      })
+      const restored = await restoreTrashEntry(token, entry, targetListRef)
+      recordOperation(
+        "restore-from-trash",
+        `Restored ${entry.kind} "${describeTrashEntry(entry).name}" from the trash`,
+        [{ action: "create", ref: restored.ref, after: restored.item }],
+      )
 
       return {
         content: [
           {
             type: "text",
-            text: `Checklist items for task "${taskTitle}" (ID: ${taskId}):\n\n${formattedItems.join("\n\n")}`,
+            text: restored.text,
           },
         ],
+        structuredContent: {
+          entryId,
+          kind: entry.kind,
+          listId: restored.ref.listId,
+          taskId: restored.ref.taskId,
+          restoredId: restored.ref.itemId ?? restored.ref.taskId ?? restored.ref.listId,
+          taskCount: restored.taskCount,
+        },
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error fetching checklist items: ${error}`,
-          },
-        ],
-      }
+      return errorResult("restoring from trash", error)
     }
   },
 )
 
-server.tool(
-  "create-checklist-item",
-  "Create a new checklist item (subtask) for a task. Checklist items help break down a task into smaller, manageable steps.",
+registerTool(
+  "empty-trash",
   {
-    listId: z.string().describe("ID of the task list"),
-    taskId: z.string().describe("ID of the task"),
-    displayName: z.string().describe("Text content of the checklist item"),
-    isChecked: z.boolean().optional().describe("Whether the item is checked off"),
+    description:
+      "Permanently discard entries from the local trash, so they can no longer be restored. Without entryIds or olderThanDays the whole trash is emptied. The user is asked to confirm first.",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    inputSchema: {
+      entryIds: z.array(z.string()).optional().describe("Only discard these entries"),
+      olderThanDays: z.number().min(0).optional().describe("Only discard entries deleted more than this many days ago"),
+      ...confirmParam,
+    },
+    outputSchema: { removed: z.number(), remaining: z.number() },
   },
-  async ({ listId, taskId, displayName, isChecked }) => {
+  async ({ entryIds, olderThanDays, confirm }) => {
     try {
-      const token = await getAccessToken()
-      if (!token) {
+      const cutoff = olderThanDays !== undefined ? Date.now() - olderThanDays * 24 * 60 * 60 * 1000 : undefined
+      const shouldRemove = (entry: TrashEntry) =>
+        (!entryIds || entryIds.includes(entry.id)) &&
+        (cutoff === undefined || new Date(entry.deletedAt).getTime() < cutoff)
+
+      const selected = trashStore.getEntries().filter(shouldRemove)
+      if (selected.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: "Failed to authenticate with Microsoft API",
+              text: "No trash entries matched; nothing was discarded.",
             },
           ],
+          structuredContent: { removed: 0, remaining: trashStore.getEntries().length },
         }
       }
 
-      // Prepare the request body
-      const requestBody: any = {
-        displayName,
+      const confirmation = await confirmDestructiveAction(
+        `Permanently discard ${selected.length} trash ${selected.length === 1 ? "entry" : "entries"}? They can no longer be restored.`,
+        confirm,
+      )
+      if (!confirmation.confirmed) {
+        return notConfirmedResult(confirmation, { removed: 0, remaining: trashStore.getEntries().length })
       }
 
-      if (isChecked !== undefined) {
-        requestBody.isChecked = isChecked
+      const removed = trashStore.purge(shouldRemove)
+      const remaining = trashStore.getEntries().length
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Discarded ${removed} trash ${removed === 1 ? "entry" : "entries"}; ${remaining} remaining.`,
+          },
+        ],
+        structuredContent: { removed, remaining },
       }
+    } catch (error) {
+      return errorResult("emptying the trash", error)
+    }
+  },
+)
 
-      // Make the API request to create the checklist item
-      const response = await makeGraphRequest<ChecklistItem>(
-        `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}/checklistItems`,
-        token,
-        "POST",
-        requestBody,
-      )
+const journalEntrySchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  timestamp: z.string(),
+  tool: z.string(),
+  summary: z.string(),
+  changeCount: z.number(),
+  undoes: z.string().optional().describe("The entry this undo reversed"),
+  undoneBy: z.string().optional().describe("The undo entry that reversed this one"),
+})
+
+const forceParam = {
+  force: z
+    .boolean()
+    .optional()
+    .describe("Put earlier values back even if the item was changed again after the operation (default: false)"),
+}
 
-      if (!response) {
+const undoOutputSchema = {
+  undoneEntryId: z.string(),
+  undoEntryId: z.string().optional().describe("Journal entry of this undo; undo it to redo the operation"),
+  changes: z.array(z.string()),
+}
+
+// Shared by undo and undo-last
+async function undoToolResult(token: string, entry: JournalEntry, force: boolean) {
+  const refusal = journal.undoRefusal(entry.id)
+  if (refusal) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: refusal,
+        },
+      ],
+      isError: true,
+    }
+  }
+
+  const { lines, undoEntry, error } = await undoOperation(token, entry, force)
+  if (error) {
+    const failure = errorResult(`undoing "${entry.summary}"`, error)
+    if (lines.length > 0) {
+      failure.content[0].text += `\n\nThese changes were already reversed before it stopped (journal entry ${undoEntry?.id}):\n${lines.map((line) => `- ${line}`).join("\n")}`
+    }
+    return failure
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Undid "${entry.summary}":\n${lines.map((line) => `- ${line}`).join("\n")}${undoEntry ? `\n\nRecorded as journal entry ${undoEntry.id}.` : ""}`,
+      },
+    ],
+    structuredContent: { undoneEntryId: entry.id, undoEntryId: undoEntry?.id, changes: lines },
+  }
+}
+
+registerTool(
+  "history",
+  {
+    description:
+      "Show recent changes made through this server, newest first and grouped by session, from the local operation journal. Each entry has an ID that undo accepts.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      sessionId: z.string().optional().describe("Only show this session; 'current' for the running server's session"),
+      limit: z.number().min(1).max(200).optional().describe("Maximum number of entries to show (default: 20)"),
+    },
+    outputSchema: {
+      currentSessionId: z.string(),
+      entries: z.array(journalEntrySchema),
+      journalFile: z.string(),
+    },
+  },
+  async ({ sessionId, limit = 20 }) => {
+    try {
+      const token = await getAccessToken()
+      const timeZone = token ? await getUserTimeZone(token) : UTC_TIME_ZONE
+
+      const currentSessionId = currentSession().sessionId
+      const wantedSession = sessionId === "current" ? currentSessionId : sessionId
+      const entries = journal
+        .getEntries()
+        .filter((entry) => !wantedSession || entry.sessionId === wantedSession)
+        .reverse()
+        .slice(0, limit)
+        .map((entry) => ({
+          id: entry.id,
+          sessionId: entry.sessionId,
+          timestamp: entry.timestamp,
+          tool: entry.tool,
+          summary: entry.summary,
+          changeCount: entry.changes.length,
+          undoes: entry.undoes,
+          undoneBy: journal.undoneBy(entry.id)?.id,
+        }))
+      const structuredContent = { currentSessionId, entries, journalFile: journal.filePath }
+
+      if (entries.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: `Failed to create checklist item for task: ${taskId}`,
+              text: wantedSession ? `No journaled operations in session ${wantedSession}.` : "The journal is empty.",
             },
           ],
+          structuredContent,
         }
       }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Checklist item created successfully!\nContent: ${response.displayName}\nID: ${response.id}`,
-          },
-        ],
+      // Newest session first, in the order of their most recent entry
+      const sessions = new Map<string, typeof entries>()
+      for (const entry of entries) {
+        sessions.set(entry.sessionId, [...(sessions.get(entry.sessionId) ?? []), entry])
       }
-    } catch (error) {
+
+      let output = ""
+      for (const [session, sessionEntries] of sessions) {
+        output += `Session ${session}${session === currentSessionId ? " (current)" : ""}:\n`
+        for (const entry of sessionEntries) {
+          const state = entry.undoneBy ? " [undone]" : ""
+          output += `- ${formatInstant(new Date(entry.timestamp), timeZone)} ${entry.tool}: ${entry.summary}${state}\n`
+          output += `  Entry ID: ${entry.id}\n`
+        }
+        output += "\n"
+      }
+
       return {
         content: [
           {
             type: "text",
-            text: `Error creating checklist item: ${error}`,
+            text: output.trimEnd(),
           },
         ],
+        structuredContent,
       }
+    } catch (error) {
+      return errorResult("reading the operation journal", error)
     }
   },
 )
 
-server.tool(
-  "update-checklist-item",
-  "Update an existing checklist item (subtask). Allows changing the text content or completion status of the subtask.",
+registerTool(
+  "undo-last",
   {
-    listId: z.string().describe("ID of the task list"),
-    taskId: z.string().describe("ID of the task"),
-    checklistItemId: z.string().describe("ID of the checklist item to update"),
-    displayName: z.string().optional().describe("New text content of the checklist item"),
-    isChecked: z.boolean().optional().describe("Whether the item is checked off"),
+    description:
+      "Undo the most recent change made in this session that has not been undone yet. Updates get their earlier values back, created items go to the trash, deleted items are restored from the trash and moved tasks move back. Restored and moved items get new IDs.",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+    inputSchema: {
+      ...forceParam,
+    },
+    outputSchema: undoOutputSchema,
   },
-  async ({ listId, taskId, checklistItemId, displayName, isChecked }) => {
+  async ({ force = false }) => {
     try {
       const token = await getAccessToken()
       if (!token) {
@@ -1458,83 +4682,101 @@ server.tool(
               text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
-      // Prepare the update body, including only the fields that are provided
-      const requestBody: any = {}
-
-      if (displayName !== undefined) {
-        requestBody.displayName = displayName
-      }
-
-      if (isChecked !== undefined) {
-        requestBody.isChecked = isChecked
+      const entry = journal.lastUndoable(currentSession().sessionId)
+      if (!entry) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Nothing to undo in this session. Use history to find earlier operations and undo with an entry ID.",
+            },
+          ],
+          isError: true,
+        }
       }
 
-      // Make sure we have at least one property to update
-      if (Object.keys(requestBody).length === 0) {
+      return await undoToolResult(token, entry, force)
+    } catch (error) {
+      return errorResult("undoing the last operation", error)
+    }
+  },
+)
+
+registerTool(
+  "undo",
+  {
+    description:
+      "Undo a journaled operation by its entry ID from history, from any session. Undoing an undo entry redoes the original operation.",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+    inputSchema: {
+      entryId: z.string().describe("ID of the journal entry, from history"),
+      ...forceParam,
+    },
+    outputSchema: undoOutputSchema,
+  },
+  async ({ entryId, force = false }) => {
+    try {
+      const token = await getAccessToken()
+      if (!token) {
         return {
           content: [
             {
               type: "text",
-              text: "No properties provided for update. Please specify either displayName or isChecked.",
+              text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
-      // Make the API request to update the checklist item
-      const response = await makeGraphRequest<ChecklistItem>(
-        `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}/checklistItems/${checklistItemId}`,
-        token,
-        "PATCH",
-        requestBody,
-      )
-
-      if (!response) {
+      const entry = journal.getEntry(entryId)
+      if (!entry) {
         return {
           content: [
             {
               type: "text",
-              text: `Failed to update checklist item with ID: ${checklistItemId}`,
+              text: `No journal entry with ID ${entryId}. Use history to see recent operations.`,
             },
           ],
+          isError: true,
         }
       }
 
-      const statusText = response.isChecked ? "Checked" : "Not checked"
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Checklist item updated successfully!\nContent: ${response.displayName}\nStatus: ${statusText}`,
-          },
-        ],
-      }
+      return await undoToolResult(token, entry, force)
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error updating checklist item: ${error}`,
-          },
-        ],
-      }
+      return errorResult("undoing operation", error)
     }
   },
 )
 
-server.tool(
-  "delete-checklist-item",
-  "Delete a checklist item (subtask) from a task. This removes just the specific subtask, not the parent task.",
+registerTool(
+  "sync-now",
   {
-    listId: z.string().describe("ID of the task list"),
-    taskId: z.string().describe("ID of the task"),
-    checklistItemId: z.string().describe("ID of the checklist item to delete"),
+    description:
+      "Refresh the local cache of task lists and tasks from Microsoft Graph using delta queries. Only changes since the last sync are downloaded. Read tools use the cache when called with useCache.",
+    // Leaves Microsoft To Do alone, but rewrites the cache file
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    inputSchema: {
+      full: z
+        .boolean()
+        .optional()
+        .describe("Discard the cache and delta tokens and download everything again (default: false)"),
+    },
+    outputSchema: {
+      full: z.boolean(),
+      lists: changeCountsSchema,
+      tasks: changeCountsSchema,
+      listCount: z.number(),
+      taskCount: z.number(),
+      resynced: z.array(z.string()).describe("Lists whose expired delta tokens were rebuilt"),
+      cacheFile: z.string(),
+    },
   },
-  async ({ listId, taskId, checklistItemId }) => {
+  async ({ full }) => {
     try {
       const token = await getAccessToken()
       if (!token) {
@@ -1545,57 +4787,74 @@ server.tool(
               text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
-      // Make a DELETE request to the Microsoft Graph API
-      const url = `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/${taskId}/checklistItems/${checklistItemId}`
-      console.error(`Deleting checklist item: ${url}`)
+      const summary = await syncTodoData(token, { full })
 
-      // The DELETE method doesn't return a response body, so we expect null
-      await makeGraphRequest<null>(url, token, "DELETE")
+      let result = full ? "🔄 Full sync complete\n" : "🔄 Sync complete\n"
+      result += `Lists: ${summary.lists.changed} added or changed, ${summary.lists.removed} removed\n`
+      result += `Tasks: ${summary.tasks.changed} added or changed, ${summary.tasks.removed} removed\n`
+      result += `Cache now holds ${summary.listCount} lists and ${summary.taskCount} tasks.\n`
 
-      // If we get here, the delete was successful (204 No Content)
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Checklist item with ID: ${checklistItemId} was successfully deleted from task: ${taskId}`,
-          },
-        ],
+      if (summary.resynced.length > 0) {
+        result += `\nDelta tokens had expired and were rebuilt for: ${summary.resynced.join(", ")}\n`
       }
-    } catch (error) {
+
+      result += `\nCache file: ${syncCache.filePath}`
+
       return {
-        content: [
-          {
-            type: "text",
-            text: `Error deleting checklist item: ${error}`,
-          },
-        ],
+        content: [{ type: "text", text: result }],
+        structuredContent: { full: Boolean(full), ...summary, cacheFile: syncCache.filePath },
       }
+    } catch (error) {
+      return errorResult("syncing task data", error)
     }
   },
 )
 
 // Bulk archive completed tasks
-server.tool(
+registerTool(
   "archive-completed-tasks",
-  "Move completed tasks older than a specified number of days from one list to another (archive) list. Useful for cleaning up active lists while preserving historical tasks.",
   {
-    sourceListId: z.string().describe("ID of the source list to archive tasks from"),
-    targetListId: z.string().describe("ID of the target archive list"),
-    olderThanDays: z
-      .number()
-      .min(0)
-      .default(90)
-      .describe("Archive tasks completed more than this many days ago (default: 90)"),
-    dryRun: z
-      .boolean()
-      .optional()
-      .default(false)
-      .describe("If true, only preview what would be archived without making changes"),
-  },
-  async ({ sourceListId, targetListId, olderThanDays, dryRun }) => {
+    description:
+      "Move completed tasks older than a specified number of days from one list to another (archive) list. Tasks keep their checklist items, linked resources and attachments. Useful for cleaning up active lists while preserving historical tasks. Unless dryRun is set, the user is asked to confirm first.",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+    inputSchema: {
+      sourceListId: z.string().describe("ID or name of the source list to archive tasks from"),
+      targetListId: z.string().describe("ID or name of the target archive list"),
+      olderThanDays: z
+        .number()
+        .min(0)
+        .default(90)
+        .describe("Archive tasks completed more than this many days ago (default: 90)"),
+      dryRun: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("If true, only preview what would be archived without making changes"),
+      maxPages: pagingParams.maxPages,
+      ...confirmParam,
+    },
+    outputSchema: {
+      dryRun: z.boolean(),
+      cutoffDate: z.string().describe("Tasks completed before this instant qualify (ISO 8601)"),
+      archivedCount: z.number(),
+      tasks: z.array(
+        z.object({
+          taskId: z.string(),
+          title: z.string(),
+          completedDateTime: dateTimeTimeZoneSchema.optional(),
+          archived: z.boolean(),
+          newTaskId: z.string().optional(),
+          error: z.string().optional(),
+        }),
+      ),
+      morePages: z.boolean().describe("The page limit was reached; run again to process the rest"),
+    },
+  },
+  async ({ sourceListId: sourceListRef, targetListId: targetListRef, olderThanDays, dryRun, maxPages, confirm }) => {
     try {
       const token = await getAccessToken()
       if (!token) {
@@ -1606,35 +4865,30 @@ server.tool(
               text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
+      // Accept names as well as IDs
+      const sourceListId = await resolveListId(token, sourceListRef)
+      const targetListId = await resolveListId(token, targetListRef)
+
       // Calculate cutoff date
+      const timeZone = await getUserTimeZone(token)
       const cutoffDate = new Date()
       cutoffDate.setDate(cutoffDate.getDate() - olderThanDays)
 
       // Get all completed tasks from source list
-      const tasksResponse = await makeGraphRequest<{ value: Task[] }>(
+      const tasksResponse = await makePagedGraphRequest<Task>(
         `${MS_GRAPH_BASE}/me/todo/lists/${sourceListId}/tasks?$filter=status eq 'completed'`,
         token,
+        { maxPages },
       )
 
-      if (!tasksResponse || !tasksResponse.value) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: "Failed to retrieve tasks from source list",
-            },
-          ],
-        }
-      }
-
       // Filter tasks older than cutoff
-      const tasksToArchive = tasksResponse.value.filter((task) => {
+      const tasksToArchive = tasksResponse.items.filter((task) => {
         if (!task.completedDateTime?.dateTime) return false
-        const completedDate = new Date(task.completedDateTime.dateTime)
-        return completedDate < cutoffDate
+        return parseGraphDateTime(task.completedDateTime) < cutoffDate
       })
 
       if (tasksToArchive.length === 0) {
@@ -1642,93 +4896,201 @@ server.tool(
           content: [
             {
               type: "text",
-              text: `No completed tasks found older than ${olderThanDays} days.`,
+              text: `No completed tasks found older than ${olderThanDays} days.${formatPagingLimitNote(tasksResponse)}`,
             },
           ],
+          structuredContent: {
+            dryRun,
+            cutoffDate: cutoffDate.toISOString(),
+            archivedCount: 0,
+            tasks: [],
+            morePages: Boolean(tasksResponse.nextCursor),
+          },
         }
       }
 
+      // The same candidates, as structured content for the preview and for a cancelled run
+      const candidates = tasksToArchive.map((task) => ({
+        taskId: task.id,
+        title: task.title,
+        completedDateTime: task.completedDateTime,
+        archived: false,
+      }))
+
       if (dryRun) {
         // Preview mode - just show what would be archived
         let preview = `📋 Archive Preview\n`
-        preview += `Would archive ${tasksToArchive.length} tasks completed before ${cutoffDate.toLocaleDateString()}\n\n`
+        preview += `Would archive ${tasksToArchive.length} tasks completed before ${formatInstant(cutoffDate, timeZone, { dateOnly: true })}\n\n`
 
         tasksToArchive.forEach((task) => {
-          const completedDate = task.completedDateTime?.dateTime
-            ? new Date(task.completedDateTime.dateTime).toLocaleDateString()
+          const completedDate = task.completedDateTime
+            ? formatGraphDateTime(task.completedDateTime, timeZone, { dateOnly: true })
             : "Unknown"
           preview += `- ${task.title} (completed: ${completedDate})\n`
         })
+        preview += formatPagingLimitNote(tasksResponse)
 
-        return { content: [{ type: "text", text: preview }] }
+        return {
+          content: [{ type: "text", text: preview }],
+          structuredContent: {
+            dryRun,
+            cutoffDate: cutoffDate.toISOString(),
+            archivedCount: 0,
+            tasks: candidates,
+            morePages: Boolean(tasksResponse.nextCursor),
+          },
+        }
       }
 
-      // Actually archive the tasks
-      let successCount = 0
-      const failedTasks: string[] = []
+      const [sourceList, targetList] = await Promise.all([
+        makeGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists/${sourceListId}`, token),
+        makeGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists/${targetListId}`, token),
+      ])
+      const confirmation = await confirmDestructiveAction(
+        `Move ${tasksToArchive.length} completed task(s) from "${sourceList.displayName}" to "${targetList.displayName}"? ` +
+          `They are removed from "${sourceList.displayName}" and get new IDs in "${targetList.displayName}".`,
+        confirm,
+      )
+      if (!confirmation.confirmed) {
+        return notConfirmedResult(confirmation, {
+          dryRun,
+          cutoffDate: cutoffDate.toISOString(),
+          archivedCount: 0,
+          tasks: candidates,
+          morePages: Boolean(tasksResponse.nextCursor),
+        })
+      }
 
-      for (const task of tasksToArchive) {
+      // Actually archive the tasks: make a verified full copy of each task first...
+      const copies = await mapWithConcurrency(tasksToArchive, LIST_FANOUT_CONCURRENCY, async (task) => {
         try {
-          // Create task in target list
-          const createResponse = await makeGraphRequest(
-            `${MS_GRAPH_BASE}/me/todo/lists/${targetListId}/tasks`,
-            token,
-            "POST",
-            {
-              title: task.title,
-              status: "completed",
-              body: task.body,
-              importance: task.importance,
-              completedDateTime: task.completedDateTime,
-              dueDateTime: task.dueDateTime,
-              reminderDateTime: task.reminderDateTime,
-              categories: task.categories,
-            },
-          )
-
-          if (createResponse) {
-            // Delete from source list
-            await makeGraphRequest(`${MS_GRAPH_BASE}/me/todo/lists/${sourceListId}/tasks/${task.id}`, token, "DELETE")
-            successCount++
-          } else {
-            failedTasks.push(task.title)
-          }
+          return { task, copy: await copyTask(token, sourceListId, task.id, targetListId) }
         } catch (error) {
-          failedTasks.push(task.title)
+          return { task, error }
         }
+      })
+
+      // ...then remove the originals through $batch
+      const copied = copies.filter((c) => c.copy)
+      const deleteResults = await makeGraphBatchRequest(
+        copied.map((c, index) => ({
+          id: `delete-${index}`,
+          method: "DELETE" as const,
+          url: `/me/todo/lists/${sourceListId}/tasks/${c.task.id}`,
+        })),
+        token,
+      )
+      const deleteResultByTaskId = new Map(copied.map((c, index) => [c.task.id, deleteResults[index]]))
+      // An original that is already gone (404) was removed all the same; its copy must stay
+      const originalRemoved = (taskId: string) => {
+        const deleted = deleteResultByTaskId.get(taskId)
+        return Boolean(deleted?.ok || deleted?.error?.isNotFound)
+      }
+
+      // Where an original could not be removed, drop its copy again so the task is not duplicated
+      const orphanedCopies = copied.filter((c) => !originalRemoved(c.task.id))
+      const rollbackResults =
+        orphanedCopies.length > 0
+          ? await makeGraphBatchRequest(
+              orphanedCopies.map((c, index) => ({
+                id: `rollback-${index}`,
+                method: "DELETE" as const,
+                url: `/me/todo/lists/${targetListId}/tasks/${c.copy!.id}`,
+              })),
+              token,
+            )
+          : []
+      const rollbackResultByTaskId = new Map(orphanedCopies.map((c, index) => [c.task.id, rollbackResults[index]]))
+
+      type ArchiveOutcome = {
+        taskId: string
+        title: string
+        completedDateTime?: Task["completedDateTime"]
+        archived: boolean
+        newTaskId?: string
+        error?: string
       }
 
+      let successCount = 0
+      const outcomes = copies.map(({ task, copy, error }): ArchiveOutcome => {
+        const outcome = {
+          taskId: task.id,
+          title: task.title,
+          completedDateTime: task.completedDateTime,
+          archived: false,
+        }
+        if (!copy) {
+          return {
+            ...outcome,
+            error: `copy failed - ${error instanceof GraphError ? error.describe() : String(error)}`,
+          }
+        }
+
+        if (!originalRemoved(task.id)) {
+          const deleteError = deleteResultByTaskId.get(task.id)?.error?.describe() ?? "unknown error"
+          const rollback = rollbackResultByTaskId.get(task.id)
+          return {
+            ...outcome,
+            error: rollback?.ok
+              ? `could not remove it from the source list, so the copy was rolled back - ${deleteError}`
+              : `could not remove it from the source list, and removing the copy ${copy.id} failed too, so the task now exists in both lists - ${deleteError}`,
+          }
+        }
+
+        successCount++
+        return { ...outcome, archived: true, newTaskId: copy.id }
+      })
+      const itemLines = outcomes.map((outcome) =>
+        outcome.archived ? `✓ ${outcome.title}` : `✗ ${outcome.title}: ${outcome.error}`,
+      )
+      recordOperation(
+        "archive-completed-tasks",
+        `Archived ${successCount} completed task(s) from "${sourceList.displayName}" to "${targetList.displayName}"`,
+        outcomes
+          .filter((outcome) => outcome.archived)
+          .map((outcome) => ({
+            action: "move" as const,
+            ref: { kind: "task" as const, listId: targetListId, taskId: outcome.newTaskId! },
+            fromListId: sourceListId,
+            previousTaskId: outcome.taskId,
+          })),
+      )
+
       let result = `📦 Archive Complete\n`
       result += `Successfully archived ${successCount} of ${tasksToArchive.length} tasks\n`
-      result += `Tasks completed before ${cutoffDate.toLocaleDateString()} were moved.\n`
-
-      if (failedTasks.length > 0) {
-        result += `\n⚠️ Failed to archive ${failedTasks.length} tasks:\n`
-        failedTasks.forEach((title) => {
-          result += `- ${title}\n`
-        })
-      }
+      result += `Tasks completed before ${formatInstant(cutoffDate, timeZone, { dateOnly: true })} were moved.\n\n`
+      result += itemLines.join("\n") + "\n"
+      result += formatPagingLimitNote(tasksResponse)
 
-      return { content: [{ type: "text", text: result }] }
-    } catch (error) {
       return {
-        content: [
-          {
-            type: "text",
-            text: `Error archiving tasks: ${error}`,
-          },
-        ],
+        content: [{ type: "text", text: result }],
+        structuredContent: {
+          dryRun,
+          cutoffDate: cutoffDate.toISOString(),
+          archivedCount: successCount,
+          tasks: outcomes,
+          morePages: Boolean(tasksResponse.nextCursor),
+        },
       }
+    } catch (error) {
+      return errorResult("archiving tasks", error)
     }
   },
 )
 
 // Test tool to explore Graph API for hidden properties
-server.tool(
+registerTool(
   "test-graph-api-exploration",
-  "Test various Graph API queries to discover hidden properties or endpoints for folder/group organization in Microsoft To Do.",
   {
-    testType: z.enum(["odata-select", "odata-expand", "headers", "extensions", "all"]).describe("Type of test to run"),
+    description:
+      "Test various Graph API queries to discover hidden properties or endpoints for folder/group organization in Microsoft To Do.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      testType: z
+        .enum(["odata-select", "odata-expand", "headers", "extensions", "all"])
+        .describe("Type of test to run"),
+    },
+    outputSchema: { testType: z.string(), report: z.string() },
   },
   async ({ testType }) => {
     try {
@@ -1741,6 +5103,7 @@ server.tool(
               text: "Failed to authenticate with Microsoft API",
             },
           ],
+          isError: true,
         }
       }
 
@@ -1886,20 +5249,616 @@ server.tool(
             text: results,
           },
         ],
+        structuredContent: { testType, report: results },
       }
     } catch (error) {
+      return errorResult("during Graph API exploration", error)
+    }
+  },
+)
+
+// Resources: lists and tasks that clients can browse and attach as context.
+// Every read returns a JSON rendering and a Markdown rendering of the same data.
+
+const LISTS_RESOURCE_URI = "todo://lists"
+
+function listResourceUri(listId: string): string {
+  return `${LISTS_RESOURCE_URI}/${encodeURIComponent(listId)}`
+}
+
+function taskResourceUri(listId: string, taskId: string): string {
+  return `${listResourceUri(listId)}/tasks/${encodeURIComponent(taskId)}`
+}
+
+// Template variables arrive as they appear in the URI
+function resourceVariable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value)
+}
+
+// Resource reads have no tool result to carry an error, so a missing token is thrown
+async function requireAccessToken(): Promise<string> {
+  const token = await getAccessToken()
+  if (!token) {
+    throw new Error("Not authenticated with Microsoft Graph. Run 'npx microsoft-todo-mcp-server setup' to sign in.")
+  }
+  return token
+}
+
+function resourceContents(uri: string, data: unknown, markdown: string) {
+  return {
+    contents: [
+      { uri, mimeType: "application/json", text: JSON.stringify(data, null, 2) },
+      { uri, mimeType: "text/markdown", text: markdown },
+    ],
+  }
+}
+
+function renderTaskLine(task: Task, zone: UserTimeZone): string {
+  const details: string[] = []
+  if (task.dueDateTime) details.push(`due ${toLocalDate(task.dueDateTime, zone)}`)
+  if (task.importance === "high") details.push("high importance")
+  if (task.recurrence) details.push(describeRecurrence(task.recurrence).toLowerCase())
+  return `- [${task.status === "completed" ? "x" : " "}] ${task.title}${details.length > 0 ? ` (${details.join(", ")})` : ""}`
+}
+
+function renderListMarkdown(list: TaskList, tasks: Task[], zone: UserTimeZone): string {
+  const open = tasks.filter((task) => task.status !== "completed")
+  const completed = tasks.filter((task) => task.status === "completed")
+
+  let markdown = `# ${list.displayName}\n\n`
+  if (list.isShared) markdown += `Shared ${list.isOwner ? "by you" : "with you"}\n\n`
+  markdown += `## Open (${open.length})\n\n${open.map((task) => renderTaskLine(task, zone)).join("\n") || "_None_"}\n\n`
+  markdown += `## Completed (${completed.length})\n\n${completed.map((task) => renderTaskLine(task, zone)).join("\n") || "_None_"}\n`
+  return markdown
+}
+
+function renderTaskMarkdown(task: Task, zone: UserTimeZone): string {
+  let markdown = `# ${task.title}\n\n`
+  markdown += `- **Status:** ${task.status}\n- **Importance:** ${task.importance}\n`
+  if (task.dueDateTime) markdown += `- **Due:** ${formatGraphDateTime(task.dueDateTime, zone, { dateOnly: true })}\n`
+  if (task.startDateTime)
+    markdown += `- **Start:** ${formatGraphDateTime(task.startDateTime, zone, { dateOnly: true })}\n`
+  if (task.reminderDateTime && task.isReminderOn) {
+    markdown += `- **Reminder:** ${formatGraphDateTime(task.reminderDateTime, zone)}\n`
+  }
+  if (task.recurrence) markdown += `- **Repeats:** ${describeRecurrence(task.recurrence)}\n`
+  if (task.categories && task.categories.length > 0) markdown += `- **Categories:** ${task.categories.join(", ")}\n`
+
+  const body = task.body?.content?.trim()
+  if (body) {
+    markdown += `\n## Notes\n\n${task.body?.contentType?.toLowerCase() === "html" ? stripHtml(body) : body}\n`
+  }
+
+  const checklistItems = task.checklistItems || []
+  if (checklistItems.length > 0) {
+    markdown += `\n## Checklist\n\n${checklistItems.map((item) => `- [${item.isChecked ? "x" : " "}] ${item.displayName}`).join("\n")}\n`
+  }
+
+  const linkedResources = task.linkedResources || []
+  if (linkedResources.length > 0) {
+    const links = linkedResources.map((resource) => {
+      const label = resource.displayName || resource.webUrl || "Link"
+      return resource.webUrl ? `- [${label}](${resource.webUrl})` : `- ${label}`
+    })
+    markdown += `\n## Links\n\n${links.join("\n")}\n`
+  }
+
+  return markdown
+}
+
+// Completion for list IDs: matches on name or ID and offers the IDs
+async function completeListId(value: string): Promise<string[]> {
+  const token = await getAccessToken()
+  if (!token) return []
+
+  const lists = (await makePagedGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token)).items
+  const needle = value.toLowerCase()
+  return lists
+    .filter((list) => list.id.startsWith(value) || list.displayName.toLowerCase().includes(needle))
+    .map((list) => list.id)
+    .slice(0, 100)
+}
+
+registerResource(
+  "task-lists",
+  LISTS_RESOURCE_URI,
+  {
+    title: "Task lists",
+    description: "All Microsoft To Do task lists with their IDs and sharing status",
+    mimeType: "application/json",
+  },
+  async (uri) => {
+    const token = await requireAccessToken()
+    const lists = (await makePagedGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token)).items
+
+    const markdown =
+      `# Task lists (${lists.length})\n\n` +
+      lists
+        .map((list) => `- [${list.displayName}](${listResourceUri(list.id)})${list.isShared ? " (shared)" : ""}`)
+        .join("\n") +
+      "\n"
+
+    return resourceContents(uri.href, lists, markdown)
+  },
+)
+
+registerResource(
+  "task-list",
+  new ResourceTemplate(`${LISTS_RESOURCE_URI}/{listId}`, {
+    // resources/list enumerates every list
+    list: async () => {
+      // An unauthenticated server still lists its static resources
+      const token = await getAccessToken()
+      if (!token) return { resources: [] }
+
+      const lists = (await makePagedGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token)).items
       return {
-        content: [
-          {
-            type: "text",
-            text: `Error during Graph API exploration: ${error}`,
-          },
-        ],
+        resources: lists.map((list) => ({
+          uri: listResourceUri(list.id),
+          name: list.displayName,
+          description: `Tasks in the "${list.displayName}" list`,
+          mimeType: "application/json",
+        })),
       }
+    },
+    complete: { listId: completeListId },
+  }),
+  {
+    title: "Task list",
+    description: "A task list with all of its tasks. The list can be given by ID or name.",
+    mimeType: "application/json",
+  },
+  async (uri, variables) => {
+    const token = await requireAccessToken()
+    // Accept names as well as IDs
+    const listId = await resolveListId(token, resourceVariable(variables.listId))
+
+    const [list, tasksResult, timeZone] = await Promise.all([
+      makeGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists/${listId}`, token),
+      makePagedGraphRequest<Task>(`${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks`, token),
+      getUserTimeZone(token),
+    ])
+
+    return resourceContents(
+      uri.href,
+      { ...list, tasks: tasksResult.items },
+      renderListMarkdown(list, tasksResult.items, timeZone),
+    )
+  },
+)
+
+registerResource(
+  "task",
+  new ResourceTemplate(`${LISTS_RESOURCE_URI}/{listId}/tasks/{taskId}`, {
+    // Too many to enumerate; clients reach tasks through their list or through completion
+    list: undefined,
+    complete: {
+      listId: completeListId,
+      taskId: async (value, context) => {
+        const token = await getAccessToken()
+        const listRef = context?.arguments?.listId
+        if (!token || !listRef) return []
+
+        const listId = await resolveListId(token, decodeURIComponent(listRef))
+        const tasks = (await makePagedGraphRequest<Task>(`${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks`, token)).items
+        const needle = value.toLowerCase()
+        return tasks
+          .filter((task) => task.id.startsWith(value) || task.title.toLowerCase().includes(needle))
+          .map((task) => task.id)
+          .slice(0, 100)
+      },
+    },
+  }),
+  {
+    title: "Task",
+    description:
+      "A single task with its checklist items and linked resources. List and task can be given by ID or name.",
+    mimeType: "application/json",
+  },
+  async (uri, variables) => {
+    const token = await requireAccessToken()
+    // Accept names as well as IDs
+    const listId = await resolveListId(token, resourceVariable(variables.listId))
+    const taskId = await resolveTaskId(token, listId, resourceVariable(variables.taskId))
+
+    const [task, timeZone] = await Promise.all([getTaskWithDetails(token, listId, taskId), getUserTimeZone(token)])
+    return resourceContents(uri.href, task, renderTaskMarkdown(task, timeZone))
+  },
+)
+
+// Resource subscriptions: a poller watches the subscribed lists through delta queries and tells the
+// client which resources changed
+
+// How often subscribed resources are checked (override with MSTODO_POLL_INTERVAL_SECONDS, at least one second)
+const POLL_INTERVAL_MS = Math.max(1, readNumberEnv("MSTODO_POLL_INTERVAL_SECONDS", 60)) * 1000
+
+const RESOURCE_URI_PATTERN = /^todo:\/\/lists(?:\/([^/]+)(?:\/tasks\/([^/]+))?)?$/
+
+// What one session's poller remembers between rounds. The poller keeps its own delta links rather than the
+// sync cache's, so it only queries the lists someone is watching and never moves the cache's position forward.
+// Every session has its own, so one client's poll never swallows changes another client has not seen yet.
+interface PollState {
+  deltaLinks: Map<string, string>
+  // Subscribed URIs that name lists or tasks, resolved to IDs once
+  resolvedUris: Map<string, { listId: string; taskId?: string }>
+}
+
+// Changes since the previous poll of the same query; the first poll only records a baseline.
+// Returns null when the delta token expired, meaning anything may have changed.
+async function pollDelta(
+  state: PollState,
+  key: string,
+  initialUrl: string,
+  token: string,
+): Promise<DeltaItem[] | null> {
+  const deltaLink = state.deltaLinks.get(key)
+  try {
+    const delta = await readDelta(deltaLink ?? initialUrl, token)
+    state.deltaLinks.set(key, delta.deltaLink)
+    return deltaLink ? delta.items : []
+  } catch (error) {
+    if (!isDeltaTokenExpired(error)) throw error
+    state.deltaLinks.delete(key)
+    await pollDelta(state, key, initialUrl, token)
+    return null
+  }
+}
+
+async function resolveResourceUri(
+  state: PollState,
+  token: string,
+  uri: string,
+): Promise<{ listId: string; taskId?: string } | null> {
+  const cached = state.resolvedUris.get(uri)
+  if (cached) return cached
+
+  const match = uri.match(RESOURCE_URI_PATTERN)
+  if (!match?.[1]) return null
+
+  const listId = await resolveListId(token, decodeURIComponent(match[1]))
+  const taskId = match[2] ? await resolveTaskId(token, listId, decodeURIComponent(match[2])) : undefined
+  const resolved = { listId, taskId }
+  state.resolvedUris.set(uri, resolved)
+  return resolved
+}
+
+// Which of the subscribed URIs changed since the last poll
+async function findChangedResources(state: PollState, uris: string[]): Promise<string[]> {
+  const token = await getAccessToken()
+  if (!token) return []
+
+  const changed: string[] = []
+
+  // Every subscription cares about the lists themselves: new, renamed or deleted lists
+  const listChanges = await pollDelta(state, "lists", `${MS_GRAPH_BASE}/me/todo/lists/delta`, token)
+  const changedListIds = new Set(listChanges?.map((item) => item.id) ?? [])
+  if (uris.includes(LISTS_RESOURCE_URI) && (listChanges === null || listChanges.length > 0)) {
+    changed.push(LISTS_RESOURCE_URI)
+  }
+
+  // Group the list and task subscriptions by list, so each list is queried once
+  const subscriptionsByList = new Map<string, { uri: string; taskId?: string }[]>()
+  for (const uri of uris) {
+    if (uri === LISTS_RESOURCE_URI) continue
+    try {
+      const resolved = await resolveResourceUri(state, token, uri)
+      if (!resolved) continue
+      const subscriptions = subscriptionsByList.get(resolved.listId) ?? []
+      subscriptions.push({ uri, taskId: resolved.taskId })
+      subscriptionsByList.set(resolved.listId, subscriptions)
+    } catch (error) {
+      // A name that no longer matches anything; leave the subscription in place and try again next round
+      console.error(`Could not resolve subscribed resource ${uri}:`, error)
+    }
+  }
+
+  for (const [listId, subscriptions] of subscriptionsByList) {
+    const listChanged = listChanges === null || changedListIds.has(listId)
+    const taskChanges = await pollDelta(
+      state,
+      `tasks:${listId}`,
+      `${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks/delta`,
+      token,
+    )
+    const changedTaskIds = new Set(taskChanges?.map((item) => item.id) ?? [])
+
+    for (const { uri, taskId } of subscriptions) {
+      const taskChanged = taskChanges === null || (taskId ? changedTaskIds.has(taskId) : changedTaskIds.size > 0)
+      if (listChanged || taskChanged) changed.push(uri)
+    }
+  }
+
+  return changed
+}
+
+function addSubscriptions(server: McpServer): void {
+  const state: PollState = { deltaLinks: new Map(), resolvedUris: new Map() }
+  const changePoller = new ChangePoller(
+    POLL_INTERVAL_MS,
+    (uris) => findChangedResources(state, uris),
+    (uri) => server.server.sendResourceUpdated({ uri }),
+  )
+
+  server.server.registerCapabilities({ resources: { subscribe: true } })
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params
+    if (!RESOURCE_URI_PATTERN.test(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`)
     }
+    changePoller.subscribe(uri)
+    return {}
+  })
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    changePoller.unsubscribe(request.params.uri)
+    state.resolvedUris.delete(request.params.uri)
+    return {}
+  })
+
+  // A session that ends stops polling for its subscriptions
+  server.server.onclose = () => changePoller.stop()
+}
+
+// Prompts: reusable planning and review workflows with live task data embedded, shown by clients as
+// slash commands. Prompt arguments are always strings.
+
+// Completion for list names, for prompt arguments that take a list
+async function completeListName(value = ""): Promise<string[]> {
+  const token = await getAccessToken()
+  if (!token) return []
+
+  const lists = (await makePagedGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token)).items
+  const needle = value.toLowerCase()
+  return lists
+    .map((list) => list.displayName)
+    .filter((name) => name.toLowerCase().includes(needle))
+    .slice(0, 100)
+}
+
+// "Work, Personal" -> ["Work", "Personal"]
+function splitListNames(value?: string): string[] | undefined {
+  const names = value
+    ?.split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+  return names && names.length > 0 ? names : undefined
+}
+
+function parseCountArgument(value: string | undefined, fallback: number, max: number): number {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback
+}
+
+function userPrompt(text: string): { messages: { role: "user"; content: { type: "text"; text: string } }[] } {
+  return { messages: [{ role: "user", content: { type: "text", text } }] }
+}
+
+// One line per task, with the IDs the tools need to act on it
+function renderPromptTaskLine(task: Task, zone: UserTimeZone): string {
+  const details: string[] = [`Task ID: ${task.id}`]
+  if (task.dueDateTime) details.push(`due ${toLocalDate(task.dueDateTime, zone)}`)
+  if (task.importance !== "normal") details.push(`${task.importance} importance`)
+  if (task.status !== "notStarted" && task.status !== "completed") details.push(task.status)
+  if (task.categories && task.categories.length > 0) details.push(task.categories.join(", "))
+  if (task.createdDateTime) details.push(`created ${task.createdDateTime.substring(0, 10)}`)
+  return `- ${task.title} (${details.join("; ")})`
+}
+
+registerPrompt(
+  "daily-plan",
+  {
+    title: "Plan my day",
+    description: "Build a realistic plan for today from overdue, due-today and upcoming tasks",
+    argsSchema: {
+      lists: completable(
+        z.string().optional().describe("Comma-separated list names to plan from (default: all lists)"),
+        completeListName,
+      ),
+      availableHours: z.string().optional().describe("Hours available for task work today"),
+      focus: z.string().optional().describe("Anything to prioritise today, e.g. a project or a kind of work"),
+    },
+  },
+  async ({ lists, availableHours, focus }) => {
+    const token = await requireAccessToken()
+    const { text: agenda } = await buildAgenda(token, {
+      days: 3,
+      listIds: splitListNames(lists),
+      includeNoDueDate: true,
+      maxPerBucket: 30,
+    })
+
+    let text = "Help me plan my day in Microsoft To Do.\n\n"
+    text += "Pick what I should realistically get done today: deal with overdue tasks first (do, reschedule or drop), "
+    text += "then today's tasks, then anything from the coming days worth starting early. Keep the plan short, "
+    text += "ordered and time-boxed, and flag anything that looks stuck or too big to finish in one sitting.\n"
+    if (availableHours) text += `\nI have about ${availableHours} hours for task work today.\n`
+    if (focus) text += `\nToday's focus: ${focus}\n`
+    text += "\nAfter I agree, use update-task to move due dates or mark tasks as inProgress. Here is my agenda:\n\n"
+    text += agenda
+
+    return userPrompt(text)
+  },
+)
+
+registerPrompt(
+  "weekly-review",
+  {
+    title: "Weekly review",
+    description: "Review what was completed, what slipped and what is coming, and tidy up the lists",
+    argsSchema: {
+      days: z.string().optional().describe("How many days to look back and ahead (default: 7)"),
+      lists: completable(
+        z.string().optional().describe("Comma-separated list names to review (default: all lists)"),
+        completeListName,
+      ),
+    },
+  },
+  async ({ days: daysArgument, lists: listsArgument }) => {
+    const token = await requireAccessToken()
+    const days = parseCountArgument(daysArgument, 7, 90)
+    const listNames = splitListNames(listsArgument)
+
+    const [agenda, timeZone, allLists] = await Promise.all([
+      buildAgenda(token, { days, listIds: listNames, includeNoDueDate: true, maxPerBucket: 50 }).then(
+        (result) => result.text,
+      ),
+      getUserTimeZone(token),
+      makePagedGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token).then((result) => result.items),
+    ])
+    const lists = listNames ? listNames.map((ref) => resolveList(allLists, ref)) : allLists
+
+    // Completed tasks from the review period, by local completion date
+    const since = addDays(todayInTimeZone(timeZone), -days)
+    const completedFilter = `?$filter=${encodeURIComponent("status eq 'completed'")}`
+    const completed = await mapWithConcurrency(lists, LIST_FANOUT_CONCURRENCY, async (list) => {
+      const tasks = (
+        await makePagedGraphRequest<Task>(`${MS_GRAPH_BASE}/me/todo/lists/${list.id}/tasks${completedFilter}`, token)
+      ).items
+      return tasks
+        .filter((task) => task.completedDateTime && toLocalDate(task.completedDateTime, timeZone) >= since)
+        .map(
+          (task) =>
+            `- ${task.title} — ${list.displayName} (completed ${toLocalDate(task.completedDateTime!, timeZone)})`,
+        )
+    })
+    const completedLines = completed.flat()
+
+    let text = `Run my weekly review of Microsoft To Do for the past and next ${days} days.\n\n`
+    text += "1. Summarise what I finished.\n"
+    text += "2. Go through overdue tasks and suggest for each whether to do, reschedule, delegate or delete it.\n"
+    text += "3. Check the coming days for overload and suggest what to move.\n"
+    text += "4. Point out tasks without a due date that have been sitting for a long time.\n"
+    text += "Propose changes first; apply them with update-task or delete-task only once I confirm.\n\n"
+    text += `Completed since ${since} (${completedLines.length}):\n`
+    text += completedLines.length > 0 ? completedLines.join("\n") : "Nothing completed"
+    text += `\n\n${agenda}`
+
+    return userPrompt(text)
+  },
+)
+
+registerPrompt(
+  "triage-list",
+  {
+    title: "Triage a list",
+    description: "Go through the open tasks of one list (such as an inbox) and sort out each one",
+    argsSchema: {
+      listName: completable(z.string().describe("Name of the list to triage, e.g. Tasks or Inbox"), completeListName),
+      limit: z.string().optional().describe("Maximum number of tasks to triage (default: 50)"),
+    },
+  },
+  async ({ listName, limit: limitArgument }) => {
+    const token = await requireAccessToken()
+    const limit = parseCountArgument(limitArgument, 50, 200)
+
+    // Accept names as well as IDs
+    const listId = await resolveListId(token, listName)
+    const openFilter = `?$filter=${encodeURIComponent("status ne 'completed'")}`
+    const [list, tasksResult, timeZone, allLists] = await Promise.all([
+      makeGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists/${listId}`, token),
+      makePagedGraphRequest<Task>(`${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks${openFilter}`, token),
+      getUserTimeZone(token),
+      makePagedGraphRequest<TaskList>(`${MS_GRAPH_BASE}/me/todo/lists`, token),
+    ])
+
+    // Oldest first: those are the ones most likely to have gone stale
+    const tasks = [...tasksResult.items].sort((a, b) =>
+      (a.createdDateTime ?? "").localeCompare(b.createdDateTime ?? ""),
+    )
+    const otherLists = allLists.items.filter((other) => other.id !== listId).map((other) => other.displayName)
+
+    let text = `Help me triage the "${list.displayName}" list in Microsoft To Do (List ID: ${listId}).\n\n`
+    text += "For each task, suggest one action: do it now (under two minutes), schedule it (suggest a due date), "
+    text += "move it to a better list, break it down, or delete it. Also suggest importance and categories where "
+    text += "that helps. Group the suggestions by action, then apply them with update-task, move-task or "
+    text += "delete-task once I confirm.\n\n"
+    if (otherLists.length > 0) text += `Other lists tasks can move to: ${otherLists.join(", ")}\n\n`
+    text += `Open tasks (${tasks.length}${tasks.length > limit ? `, showing the oldest ${limit}` : ""}):\n`
+    text +=
+      tasks.length > 0
+        ? tasks
+            .slice(0, limit)
+            .map((task) => renderPromptTaskLine(task, timeZone))
+            .join("\n")
+        : "None"
+
+    return userPrompt(text)
+  },
+)
+
+registerPrompt(
+  "break-down-task",
+  {
+    title: "Break down a task",
+    description: "Split a large task into concrete next steps and add them as checklist items",
+    argsSchema: {
+      listName: completable(z.string().describe("Name of the list the task is in"), completeListName),
+      taskName: completable(z.string().describe("Title of the task to break down"), async (value, context) => {
+        const token = await getAccessToken()
+        const listName = context?.arguments?.listName
+        if (!token || !listName) return []
+
+        const listId = await resolveListId(token, listName)
+        const tasks = (await makePagedGraphRequest<Task>(`${MS_GRAPH_BASE}/me/todo/lists/${listId}/tasks`, token)).items
+        const needle = value.toLowerCase()
+        return tasks
+          .filter((task) => task.status !== "completed" && task.title.toLowerCase().includes(needle))
+          .map((task) => task.title)
+          .slice(0, 100)
+      }),
+      maxSteps: z.string().optional().describe("Maximum number of steps to suggest (default: 8)"),
+    },
+  },
+  async ({ listName, taskName, maxSteps: maxStepsArgument }) => {
+    const token = await requireAccessToken()
+    const maxSteps = parseCountArgument(maxStepsArgument, 8, 30)
+
+    // Accept names as well as IDs
+    const listId = await resolveListId(token, listName)
+    const taskId = await resolveTaskId(token, listId, taskName)
+    const [task, timeZone] = await Promise.all([getTaskWithDetails(token, listId, taskId), getUserTimeZone(token)])
+
+    let text = `Help me break down this Microsoft To Do task into at most ${maxSteps} concrete steps.\n\n`
+    text += "Each step should be a single physical action that can be done in one sitting, starting with a verb. "
+    text += "Skip anything the existing checklist already covers. If the task is really several tasks, say so "
+    text += "and suggest separate tasks instead. Once I confirm, add the steps with create-checklist-item "
+    text += `(List ID: ${listId}, Task ID: ${taskId}).\n\n`
+    text += renderTaskMarkdown(task, timeZone)
+
+    return userPrompt(text)
   },
 )
 
+// Build a server with the tools the tool mode allows, plus the resources, subscriptions and prompts.
+// sessionId tags the session's entries in the operation journal.
+export function createServer(
+  options: { toolMode?: ToolMode; sessionId?: string; localFiles?: LocalFileAccess } = {},
+): McpServer {
+  const server = new McpServer({
+    name: "mstodo",
+    version: "1.0.0",
+  })
+  const toolMode = options.toolMode ?? "full"
+  const localFileAccess = options.localFiles ?? {}
+  const localFiles = localFileAccess !== false && allowsLocalFiles(toolMode)
+  const session: McpSession = {
+    server,
+    sessionId: options.sessionId ?? randomUUID(),
+    localFiles,
+    fileDirectory: localFileAccess ? localFileAccess.directory : undefined,
+  }
+
+  for (const tool of toolDefinitions) {
+    const withLocalFiles = localFiles && tool.localFiles !== undefined
+    if (isToolAllowed(toolAnnotations(tool, withLocalFiles), toolMode)) tool.register(server, session, withLocalFiles)
+  }
+  for (const setup of serverSetups) setup(server)
+  addSubscriptions(server)
+
+  return server
+}
+
 // Main function to start the server
 export async function startServer(config?: ServerConfig): Promise<void> {
   try {
@@ -1909,9 +5868,33 @@ export async function startServer(config?: ServerConfig): Promise<void> {
     // Check if using a personal Microsoft account and show warning if needed
     await isPersonalMicrosoftAccount()
 
-    // Start the server
+    // Leave out the tools the tool mode excludes before any client can list them
+    const envToolMode = process.env.MSTODO_TOOL_MODE
+    const toolMode = config?.toolMode ?? (envToolMode ? parseToolMode(envToolMode) : "full")
+    const toolCount = toolDefinitions.filter((tool) =>
+      isToolAllowed(toolAnnotations(tool, allowsLocalFiles(toolMode)), toolMode),
+    ).length
+    console.error(`Tool mode: ${toolMode} (${toolCount} tools)`)
+
+    // Stdio unless HTTP was asked for; callers that parsed the command line pass http even when it is undefined
+    const http = config && "http" in config ? config.http : httpOptionsFromArgs([])
+    if (http) {
+      // Remote clients must not reach arbitrary local files: file arguments need a directory set aside for them
+      const localFiles: LocalFileAccess = http.fileDirectory ? { directory: http.fileDirectory } : false
+      const running = await startHttpServer((sessionId) => createServer({ toolMode, sessionId, localFiles }), http)
+      console.error(`Server listening on ${running.url}/mcp (Streamable HTTP) and ${running.url}/sse (SSE)`)
+
+      const shutdown = () => {
+        console.error("Shutting down HTTP server")
+        void running.close().then(() => process.exit(0))
+      }
+      process.once("SIGINT", shutdown)
+      process.once("SIGTERM", shutdown)
+      return
+    }
+
     const transport = new StdioServerTransport()
-    await server.connect(transport)
+    await createServer({ toolMode }).connect(transport)
 
     console.error("Server started and listening")
   } catch (error) {
@@ -1922,7 +5905,8 @@ export async function startServer(config?: ServerConfig): Promise<void> {
 
 // Main entry point when executed directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  startServer().catch((error) => {
+  const args = process.argv.slice(2)
+  startServer({ toolMode: toolModeFromArgs(args), http: httpOptionsFromArgs(args) }).catch((error) => {
     console.error("Fatal error in main():", error)
     process.exit(1)
   })
@@ -15,7 +15,22 @@ interface StoredTokenData extends TokenData {
   tenantId?: string
 }
 
+// Scopes requested when refreshing, matching the ones auth-server signs in with
+const REFRESH_SCOPES = [
+  "offline_access",
+  "Tasks.Read",
+  "Tasks.ReadWrite",
+  "Tasks.Read.Shared",
+  "Tasks.ReadWrite.Shared",
+  "User.Read",
+  "MailboxSettings.Read",
+]
+// Sign-ins from before MailboxSettings.Read was added never consented to it
+const LEGACY_REFRESH_SCOPES = REFRESH_SCOPES.filter((scope) => scope !== "MailboxSettings.Read")
+
 export class TokenManager {
+  // Per-user directory for tokens and other local state
+  readonly configDir: string
   private tokenFilePath: string
   private currentTokens: StoredTokenData | null = null
 
@@ -31,6 +46,7 @@ export class TokenManager {
       mkdirSync(configDir, { recursive: true })
     }
 
+    this.configDir = configDir
     this.tokenFilePath = join(configDir, "tokens.json")
     console.error(`Token file path: ${this.tokenFilePath}`)
   }
@@ -111,24 +127,33 @@ export class TokenManager {
 
       const tokenEndpoint = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`
 
-      const formData = new URLSearchParams({
-        client_id: clientId,
-        client_secret: clientSecret,
-        refresh_token: refreshToken,
-        grant_type: "refresh_token",
-        scope: "offline_access Tasks.Read Tasks.ReadWrite Tasks.Read.Shared Tasks.ReadWrite.Shared User.Read",
-      })
-
-      const response = await fetch(tokenEndpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: formData,
-      })
+      const requestRefresh = (scopes: string[]) =>
+        fetch(tokenEndpoint, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({
+            client_id: clientId,
+            client_secret: clientSecret,
+            refresh_token: refreshToken,
+            grant_type: "refresh_token",
+            scope: scopes.join(" "),
+          }),
+        })
+
+      let response = await requestRefresh(REFRESH_SCOPES)
+      let errorText = response.ok ? "" : await response.text()
+
+      // AADSTS65001: the user has not consented to MailboxSettings.Read. Keep the older scopes until they sign in
+      // again; task dates fall back to UTC meanwhile.
+      if (errorText.includes("AADSTS65001")) {
+        console.error("Token was not granted MailboxSettings.Read, refreshing without it")
+        response = await requestRefresh(LEGACY_REFRESH_SCOPES)
+        errorText = response.ok ? "" : await response.text()
+      }
 
       if (!response.ok) {
-        const errorText = await response.text()
         console.error(`Token refresh failed: ${errorText}`)
 
         // If refresh fails, prompt for re-authentication
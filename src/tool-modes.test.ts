@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest"
+
+import { allowsLocalFiles, isToolAllowed, parseToolMode, toolModeFromArgs } from "./tool-modes.js"
+
+const READ = { readOnlyHint: true }
+const CREATE = { readOnlyHint: false, destructiveHint: false, idempotentHint: false }
+const UPDATE = { readOnlyHint: false, destructiveHint: false, idempotentHint: true }
+const DELETE = { readOnlyHint: false, destructiveHint: true, idempotentHint: true }
+
+describe("isToolAllowed", () => {
+  it("offers every tool in full mode", () => {
+    for (const annotations of [READ, CREATE, UPDATE, DELETE, undefined]) {
+      expect(isToolAllowed(annotations, "full")).toBe(true)
+    }
+  })
+
+  it("offers only reading tools in read-only mode", () => {
+    expect(isToolAllowed(READ, "read-only")).toBe(true)
+    expect(isToolAllowed(CREATE, "read-only")).toBe(false)
+    expect(isToolAllowed(UPDATE, "read-only")).toBe(false)
+    expect(isToolAllowed(DELETE, "read-only")).toBe(false)
+  })
+
+  it("offers reading and creating tools in read-create mode", () => {
+    expect(isToolAllowed(READ, "read-create")).toBe(true)
+    expect(isToolAllowed(CREATE, "read-create")).toBe(true)
+    expect(isToolAllowed(UPDATE, "read-create")).toBe(false)
+    expect(isToolAllowed(DELETE, "read-create")).toBe(false)
+  })
+
+  it("withholds tools without annotations outside full mode", () => {
+    expect(isToolAllowed(undefined, "read-only")).toBe(false)
+    expect(isToolAllowed(undefined, "read-create")).toBe(false)
+    expect(isToolAllowed({ readOnlyHint: false }, "read-create")).toBe(false)
+  })
+})
+
+describe("allowsLocalFiles", () => {
+  it("allows local files only in full mode", () => {
+    expect(allowsLocalFiles("full")).toBe(true)
+    expect(allowsLocalFiles("read-create")).toBe(false)
+    expect(allowsLocalFiles("read-only")).toBe(false)
+  })
+})
+
+describe("parseToolMode", () => {
+  it("accepts known modes in any case", () => {
+    expect(parseToolMode("read-only")).toBe("read-only")
+    expect(parseToolMode(" Read-Create ")).toBe("read-create")
+  })
+
+  it("rejects unknown modes", () => {
+    expect(() => parseToolMode("write-only")).toThrow(
+      'Unknown tool mode "write-only". Use one of: full, read-create, read-only',
+    )
+  })
+})
+
+describe("toolModeFromArgs", () => {
+  it("reads the mode flags", () => {
+    expect(toolModeFromArgs(["--read-only"])).toBe("read-only")
+    expect(toolModeFromArgs(["--read-create"])).toBe("read-create")
+    expect(toolModeFromArgs(["--tool-mode=full"])).toBe("full")
+  })
+
+  it("lets the last flag win", () => {
+    expect(toolModeFromArgs(["--read-only", "--tool-mode=read-create"])).toBe("read-create")
+  })
+
+  it("returns undefined without a mode flag", () => {
+    expect(toolModeFromArgs(["--http", "--port=3000"])).toBeUndefined()
+  })
+
+  it("rejects an unknown --tool-mode", () => {
+    expect(() => toolModeFromArgs(["--tool-mode=everything"])).toThrow('Unknown tool mode "everything"')
+  })
+})
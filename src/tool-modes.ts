@@ -0,0 +1,43 @@
+// src/tool-modes.ts
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js"
+
+// Which tools the server offers:
+// - full: every tool
+// - read-create: tools that read, plus tools that only add new things (lists, tasks, checklist items, ...)
+// - read-only: tools that leave Microsoft To Do untouched
+export const TOOL_MODES = ["full", "read-create", "read-only"] as const
+export type ToolMode = (typeof TOOL_MODES)[number]
+
+export function parseToolMode(value: string): ToolMode {
+  const mode = TOOL_MODES.find((candidate) => candidate === value.trim().toLowerCase())
+  if (!mode) {
+    throw new Error(`Unknown tool mode "${value}". Use one of: ${TOOL_MODES.join(", ")}`)
+  }
+  return mode
+}
+
+// --read-only, --read-create or --tool-mode=<mode> on the command line
+export function toolModeFromArgs(args: string[]): ToolMode | undefined {
+  let mode: ToolMode | undefined
+  for (const arg of args) {
+    if (arg === "--read-only") mode = "read-only"
+    else if (arg === "--read-create") mode = "read-create"
+    else if (arg.startsWith("--tool-mode=")) mode = parseToolMode(arg.slice("--tool-mode=".length))
+  }
+  return mode
+}
+
+// The mode is decided from the tool's annotations, so the hints clients see and the tools the server
+// offers cannot drift apart. A tool that creates something is neither destructive nor idempotent:
+// calling it again adds another item rather than changing an existing one.
+export function isToolAllowed(annotations: ToolAnnotations | undefined, mode: ToolMode): boolean {
+  if (mode === "full" || annotations?.readOnlyHint) return true
+  return mode === "read-create" && annotations?.destructiveHint === false && annotations?.idempotentHint === false
+}
+
+// Arguments that read or write local files (upload-attachment's filePath, download-attachment's savePath) are
+// only offered in full mode. No annotation says that a tool reads local files, and reading one is enough to
+// carry its content off the machine.
+export function allowsLocalFiles(mode: ToolMode): boolean {
+  return mode === "full"
+}
@@ -0,0 +1,81 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import { TrashStore } from "./trash-store.js"
+
+interface Entry {
+  id: string
+  deletedAt: string
+  title: string
+}
+
+const entry = (id: string, deletedAt: string): Entry => ({ id, deletedAt, title: `Task ${id}` })
+
+describe("TrashStore", () => {
+  let configDir: string
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), "trash-store-"))
+  })
+
+  afterEach(() => {
+    rmSync(configDir, { recursive: true, force: true })
+  })
+
+  it("starts empty without a trash file", () => {
+    expect(new TrashStore<Entry>(configDir).getEntries()).toEqual([])
+  })
+
+  it("returns entries newest first and keeps them across instances", () => {
+    const trash = new TrashStore<Entry>(configDir)
+    trash.add(entry("b", "2026-03-02T10:00:00.000Z"))
+    trash.add(entry("c", "2026-03-03T10:00:00.000Z"))
+    trash.add(entry("a", "2026-03-01T10:00:00.000Z"))
+
+    const reloaded = new TrashStore<Entry>(configDir)
+    expect(reloaded.getEntries().map((e) => e.id)).toEqual(["c", "b", "a"])
+    expect(reloaded.getEntry("b")?.title).toBe("Task b")
+    expect(reloaded.getEntry("missing")).toBeUndefined()
+  })
+
+  it("removes one entry by ID", () => {
+    const trash = new TrashStore<Entry>(configDir)
+    trash.add(entry("a", "2026-03-01T10:00:00.000Z"))
+    trash.add(entry("b", "2026-03-02T10:00:00.000Z"))
+
+    expect(trash.remove("a")).toBe(true)
+    expect(trash.remove("a")).toBe(false)
+    expect(new TrashStore<Entry>(configDir).getEntries().map((e) => e.id)).toEqual(["b"])
+  })
+
+  it("purges the entries the predicate selects", () => {
+    const trash = new TrashStore<Entry>(configDir)
+    trash.add(entry("old", "2026-01-01T10:00:00.000Z"))
+    trash.add(entry("older", "2025-12-01T10:00:00.000Z"))
+    trash.add(entry("new", "2026-03-01T10:00:00.000Z"))
+
+    expect(trash.purge((e) => e.deletedAt < "2026-02-01")).toBe(2)
+    expect(trash.purge(() => false)).toBe(0)
+    expect(new TrashStore<Entry>(configDir).getEntries().map((e) => e.id)).toEqual(["new"])
+  })
+
+  it("writes a versioned file", () => {
+    const trash = new TrashStore<Entry>(configDir)
+    trash.add(entry("a", "2026-03-01T10:00:00.000Z"))
+    expect(JSON.parse(readFileSync(trash.filePath, "utf8"))).toEqual({
+      version: 1,
+      entries: [entry("a", "2026-03-01T10:00:00.000Z")],
+    })
+  })
+
+  it("refuses a trash file it does not recognize instead of overwriting it", () => {
+    const trash = new TrashStore<Entry>(configDir)
+    writeFileSync(trash.filePath, JSON.stringify({ version: 2, items: [] }), "utf8")
+
+    expect(() => trash.getEntries()).toThrow(`Unrecognized trash file: ${trash.filePath}`)
+    expect(() => trash.add(entry("a", "2026-03-01T10:00:00.000Z"))).toThrow("Unrecognized trash file")
+    expect(JSON.parse(readFileSync(trash.filePath, "utf8"))).toEqual({ version: 2, items: [] })
+  })
+})
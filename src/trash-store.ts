@@ -0,0 +1,79 @@
+// src/trash-store.ts
+import { existsSync, readFileSync, writeFileSync } from "fs"
+import { join } from "path"
+
+interface TrashFile<TEntry> {
+  version: 1
+  entries: TEntry[]
+}
+
+// Local JSON store of deleted items, so a mistaken delete can be undone. The entries themselves are
+// defined by the caller; the store only needs an ID and the time of deletion.
+export class TrashStore<TEntry extends { id: string; deletedAt: string }> {
+  private trashFilePath: string
+  private trash: TrashFile<TEntry> | null = null
+
+  constructor(configDir: string) {
+    this.trashFilePath = join(configDir, "trash.json")
+  }
+
+  private load(): TrashFile<TEntry> {
+    if (this.trash) return this.trash
+
+    if (existsSync(this.trashFilePath)) {
+      // Unlike the sync cache this cannot be rebuilt from Graph, so an unreadable file is an error, not a reset
+      const data = JSON.parse(readFileSync(this.trashFilePath, "utf8"))
+      if (data?.version !== 1 || !Array.isArray(data.entries)) {
+        throw new Error(`Unrecognized trash file: ${this.trashFilePath}`)
+      }
+      this.trash = data
+      return data
+    }
+
+    this.trash = { version: 1, entries: [] }
+    return this.trash
+  }
+
+  private save(): void {
+    writeFileSync(this.trashFilePath, JSON.stringify(this.load()), "utf8")
+  }
+
+  get filePath(): string {
+    return this.trashFilePath
+  }
+
+  // Newest first
+  getEntries(): TEntry[] {
+    return [...this.load().entries].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+  }
+
+  getEntry(id: string): TEntry | undefined {
+    return this.load().entries.find((entry) => entry.id === id)
+  }
+
+  add(entry: TEntry): void {
+    this.load().entries.push(entry)
+    this.save()
+  }
+
+  remove(id: string): boolean {
+    const trash = this.load()
+    const remaining = trash.entries.filter((entry) => entry.id !== id)
+    if (remaining.length === trash.entries.length) return false
+
+    trash.entries = remaining
+    this.save()
+    return true
+  }
+
+  // Permanently discard the entries the predicate selects; returns how many were removed
+  purge(shouldRemove: (entry: TEntry) => boolean): number {
+    const trash = this.load()
+    const remaining = trash.entries.filter((entry) => !shouldRemove(entry))
+    const removed = trash.entries.length - remaining.length
+
+    trash.entries = remaining
+    this.save()
+    return removed
+  }
+}
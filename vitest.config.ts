@@ -4,8 +4,6 @@ export default defineConfig({
   test: {
     globals: true,
     environment: "node",
-    // No tests exist yet; keep the validate chain green and ready for the first spec.
-    passWithNoTests: true,
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html"],